@@ -0,0 +1,125 @@
+module powerbi.extensibility.visual {
+
+    export interface LabelLayout {
+
+        // "horizontal", "wrapped", "truncated" or "rotated"
+        mode: string;
+
+        // room the labels take across the axis
+        size: number;
+
+        lines: { [label: string]: string[] };
+
+    }
+
+    export class AxisLabelLayout {
+
+        public static rotation = -35;
+
+        private static maxLines = 2;
+
+        private static ellipsis = "…";
+
+        // below this band width truncated labels become unreadable and rotating them works better
+        private static minTruncatedWidth = 40;
+
+        constructor(measure: (text: string) => number, lineHeight: number) {
+            this.measure = measure;
+            this.lineHeight = lineHeight;
+        }
+
+        private measure: (text: string) => number;
+        private lineHeight: number;
+
+        // labels centred under bands of the given width, e.g. the categories of vertical columns
+        public forBands(labels: string[], bandWidth: number, maxSize: number): LabelLayout {
+            let widest = d3.max(labels, label => this.measure(label)) || 0;
+
+            if (widest <= bandWidth) {
+                return this.createLayout("horizontal", labels, label => [label], this.lineHeight);
+            }
+
+            let wrapped: { [label: string]: string[] } = {};
+            let fits = labels.every(label => {
+                wrapped[label] = this.wrap(label, bandWidth);
+                return wrapped[label] !== null;
+            });
+
+            if (fits) {
+                let lines = d3.max(labels, label => wrapped[label].length);
+                return this.createLayout("wrapped", labels, label => wrapped[label], lines * this.lineHeight);
+            }
+
+            if (bandWidth >= AxisLabelLayout.minTruncatedWidth) {
+                return this.createLayout("truncated", labels, label => [this.truncate(label, bandWidth)], this.lineHeight);
+            }
+
+            // rotated labels grow with their length, so the longest ones are cut to keep within maxSize
+            let angle = Math.abs(AxisLabelLayout.rotation) * Math.PI / 180;
+            let lineExtent = this.lineHeight * Math.cos(angle);
+            let maxWidth = Math.max(0, (maxSize - lineExtent) / Math.sin(angle));
+            let width = Math.min(widest, maxWidth);
+
+            return this.createLayout("rotated", labels, label => [this.truncate(label, maxWidth)],
+                width * Math.sin(angle) + lineExtent);
+        }
+
+        // labels written beside the axis, e.g. the categories of horizontal bars
+        public forWidth(labels: string[], maxWidth: number): LabelLayout {
+            let widest = d3.max(labels, label => this.measure(label)) || 0;
+            let truncated = widest > maxWidth;
+
+            return this.createLayout(truncated ? "truncated" : "horizontal", labels,
+                label => [truncated ? this.truncate(label, maxWidth) : label], Math.min(widest, maxWidth));
+        }
+
+        public truncate(text: string, width: number): string {
+            if (this.measure(text) <= width) {
+                return text;
+            }
+
+            let length = text.length;
+
+            while (length > 0 && this.measure(text.substring(0, length) + AxisLabelLayout.ellipsis) > width) {
+                length--;
+            }
+
+            return length > 0 ? text.substring(0, length) + AxisLabelLayout.ellipsis : "";
+        }
+
+        // splits on spaces, or returns null when the words don't fit on maxLines lines
+        private wrap(text: string, width: number): string[] {
+            let lines: string[] = [];
+
+            for (let word of text.split(/\s+/)) {
+                let current = lines.length > 0 ? `${lines[lines.length - 1]} ${word}` : null;
+
+                if (current !== null && this.measure(current) <= width) {
+                    lines[lines.length - 1] = current;
+                }
+                else if (this.measure(word) <= width) {
+                    lines.push(word);
+                }
+                else {
+                    return null;
+                }
+            }
+
+            return lines.length <= AxisLabelLayout.maxLines ? lines : null;
+        }
+
+        private createLayout(mode: string, labels: string[], getLines: (label: string) => string[], size: number): LabelLayout {
+            let lines: { [label: string]: string[] } = {};
+
+            for (let label of labels) {
+                lines[label] = getLines(label);
+            }
+
+            return {
+                mode: mode,
+                size: size,
+                lines: lines
+            };
+        }
+    }
+}
@@ -0,0 +1,334 @@
+module powerbi.extensibility.visual {
+
+    export interface ValueFormatterOptions {
+
+        // format string of the column, e.g. "#,0.00" or "\$#,0;(\$#,0)"
+        format?: string;
+
+        // 0 picks the unit from maxValue, 1 shows the value as it is
+        displayUnits?: number;
+
+        // decimal places, overrides the ones found in the format string
+        precision?: number;
+
+        maxValue?: number;
+
+        // axis ticks get just enough decimals to tell neighbouring ticks apart
+        tickInterval?: number;
+
+        // report culture, e.g. "de-DE", which picks the decimal and grouping separators
+        locale?: string;
+
+    }
+
+    interface Separators {
+        decimal: string;
+        group: string;
+    }
+
+    interface DisplayUnit {
+        value: number;
+        suffix: string;
+    }
+
+    interface NumberPattern {
+        prefix: string;
+        suffix: string;
+        decimals: number;
+        optionalDecimals: number;
+        grouping: boolean;
+        percent: boolean;
+
+        // "E+" or "e-" of scientific notation, with the least number of exponent digits; 0 when there is none
+        exponentSymbol: string;
+        exponentDigits: number;
+    }
+
+    export class ValueFormatter {
+
+        private static defaultDecimals = 2;
+
+        private static displayUnits: DisplayUnit[] = [
+            { value: 1e3, suffix: "K" },
+            { value: 1e6, suffix: "M" },
+            { value: 1e9, suffix: "bn" },
+            { value: 1e12, suffix: "T" }
+        ];
+
+        private static invariantSeparators: Separators = { decimal: ".", group: "," };
+
+        private static separatorsByLocale: { [locale: string]: Separators } = {};
+
+        constructor(options: ValueFormatterOptions) {
+            let sections = ValueFormatter.splitSections(options.format);
+
+            this.positive = ValueFormatter.parsePattern(sections[0]);
+            this.negative = sections[1] ? ValueFormatter.parsePattern(sections[1]) : null;
+            this.precision = options.precision;
+            this.tickInterval = options.tickInterval;
+            this.separators = ValueFormatter.getSeparators(options.locale);
+
+            if (!this.positive.percent && !this.positive.exponentDigits) {
+                let decimals = this.precision != null ? this.precision : this.positive.decimals + this.positive.optionalDecimals;
+
+                this.unit = ValueFormatter.getDisplayUnit(options.displayUnits, options.maxValue, decimals);
+            }
+        }
+
+        private positive: NumberPattern;
+        private negative: NumberPattern;
+        private precision: number;
+        private tickInterval: number;
+        private separators: Separators;
+        private unit: DisplayUnit;
+
+        public format(value: number): string {
+            if (value == null || isNaN(value)) {
+                return "";
+            }
+
+            // a dedicated negative section carries its own sign, e.g. parentheses
+            let pattern = value < 0 && this.negative ? this.negative : this.positive;
+            let scale = 1;
+            let unitSuffix = "";
+
+            if (pattern.percent) {
+                scale = 100;
+            }
+            else if (this.unit && !pattern.exponentDigits) {
+                scale = 1 / this.unit.value;
+                unitSuffix = this.unit.suffix;
+            }
+
+            let scaled = Math.abs(value) * scale;
+            let decimals = this.precision != null ? this.precision : pattern.decimals + pattern.optionalDecimals;
+
+            if (this.precision == null && this.tickInterval && !pattern.exponentDigits) {
+                decimals = ValueFormatter.getDecimals(this.tickInterval * scale);
+            }
+
+            decimals = Math.max(0, Math.min(20, decimals));
+
+            let exponent = pattern.exponentDigits ? ValueFormatter.getExponent(scaled, decimals) : 0;
+            let text = (scaled / Math.pow(10, exponent)).toFixed(decimals);
+
+            if (this.precision == null && !this.tickInterval && pattern.optionalDecimals > 0) {
+                text = ValueFormatter.trimOptionalDecimals(text, pattern.decimals);
+            }
+
+            if (pattern.grouping) {
+                text = ValueFormatter.group(text);
+            }
+
+            // the sign follows the rounded digits, so a small negative value reads 0 rather than -0
+            let sign = value < 0 && !this.negative && /[1-9]/.test(text) ? "-" : "";
+
+            if (this.separators !== ValueFormatter.invariantSeparators) {
+                text = text.replace(/[.,]/g, char => char === "." ? this.separators.decimal : this.separators.group);
+            }
+
+            if (pattern.exponentDigits) {
+                text += ValueFormatter.formatExponent(exponent, pattern);
+            }
+
+            return sign + pattern.prefix + text + unitSuffix + pattern.suffix;
+        }
+
+        // the power of ten that leaves one digit before the point, once the mantissa is rounded
+        private static getExponent(value: number, decimals: number): number {
+            if (value === 0) {
+                return 0;
+            }
+
+            let exponent = Math.floor(Math.log(value) / Math.LN10);
+
+            if (+(value / Math.pow(10, exponent)).toFixed(decimals) >= 10) {
+                exponent++;
+            }
+
+            return exponent;
+        }
+
+        private static formatExponent(exponent: number, pattern: NumberPattern): string {
+            let digits = String(Math.abs(exponent));
+
+            while (digits.length < pattern.exponentDigits) {
+                digits = "0" + digits;
+            }
+
+            return pattern.exponentSymbol[0] + (exponent < 0 ? "-" : pattern.exponentSymbol[1] === "+" ? "+" : "") + digits;
+        }
+
+        // read off how the browser writes 1234567.5 in the culture, falling back to the invariant separators;
+        // a four digit sample isn't enough, es, pl and pt-PT only group numbers from five digits up
+        private static getSeparators(locale: string): Separators {
+            if (!locale) {
+                return ValueFormatter.invariantSeparators;
+            }
+
+            if (!ValueFormatter.separatorsByLocale[locale]) {
+                let separators = ValueFormatter.invariantSeparators;
+
+                try {
+                    let sample = (1234567.5).toLocaleString(locale, { minimumFractionDigits: 1, useGrouping: true });
+                    let match = /^1(\D?)234(\D?)567(\D)5$/.exec(sample);
+
+                    if (match && match[1] === match[2] && (match[1] !== "," || match[3] !== ".")) {
+                        separators = { decimal: match[3], group: match[1] };
+                    }
+                }
+                catch (e) {
+                    // unknown culture, keep the invariant separators
+                }
+
+                ValueFormatter.separatorsByLocale[locale] = separators;
+            }
+
+            return ValueFormatter.separatorsByLocale[locale];
+        }
+
+        private static getDecimals(step: number): number {
+            let decimals = 0;
+
+            while (decimals < 10 && Math.abs(Math.round(step * Math.pow(10, decimals)) - step * Math.pow(10, decimals)) > 1e-6) {
+                decimals++;
+            }
+
+            return decimals;
+        }
+
+        // a unit is taken once the value reaches it, or once the value would round up to a thousand of the unit below
+        private static getDisplayUnit(displayUnits: number, maxValue: number, decimals: number): DisplayUnit {
+            if (displayUnits === 0) {
+                let magnitude = Math.abs(maxValue || 0);
+                let unit: DisplayUnit = null;
+
+                for (let candidate of ValueFormatter.displayUnits) {
+                    let rounded = +(magnitude / (unit ? unit.value : 1)).toFixed(Math.max(0, Math.min(20, decimals)));
+
+                    if (magnitude >= candidate.value || rounded >= 1000) {
+                        unit = candidate;
+                    }
+                }
+
+                return unit;
+            }
+
+            return ValueFormatter.displayUnits.filter(u => u.value === displayUnits)[0] || null;
+        }
+
+        private static splitSections(format: string): string[] {
+            let sections: string[] = [""];
+            let quoted = false;
+
+            for (let i = 0; format && i < format.length; i++) {
+                let char = format[i];
+
+                if (char === "\\" && i + 1 < format.length) {
+                    sections[sections.length - 1] += char + format[++i];
+                    continue;
+                }
+
+                if (char === "\"") {
+                    quoted = !quoted;
+                }
+
+                if (char === ";" && !quoted) {
+                    sections.push("");
+                }
+                else {
+                    sections[sections.length - 1] += char;
+                }
+            }
+
+            return sections;
+        }
+
+        private static parsePattern(section: string): NumberPattern {
+            let pattern: NumberPattern = {
+                prefix: "",
+                suffix: "",
+                decimals: 0,
+                optionalDecimals: ValueFormatter.defaultDecimals,
+                grouping: false,
+                percent: false,
+                exponentSymbol: "",
+                exponentDigits: 0
+            };
+            let literal = "";
+            let core = "";
+            let quoted = false;
+
+            // literals before the digit placeholders form the prefix, everything after them the suffix
+            for (let i = 0; section && i < section.length; i++) {
+                let char = section[i];
+
+                if (char === "\\" && i + 1 < section.length) {
+                    literal += section[++i];
+                }
+                else if (char === "\"") {
+                    quoted = !quoted;
+                }
+                else if (!quoted && core && !literal && !pattern.exponentDigits && /^[Ee][+-]0+/.test(section.substring(i))) {
+                    let exponent = /^([Ee][+-])(0+)/.exec(section.substring(i));
+
+                    pattern.exponentSymbol = exponent[1];
+                    pattern.exponentDigits = exponent[2].length;
+                    i += exponent[0].length - 1;
+                }
+                else if (!quoted && /[#0,.]/.test(char) && !pattern.prefix && !core && literal) {
+                    pattern.prefix = literal;
+                    literal = "";
+                    core += char;
+                }
+                else if (!quoted && /[#0,.]/.test(char) && !literal) {
+                    core += char;
+                }
+                else {
+                    if (!quoted && char === "%") {
+                        pattern.percent = true;
+                    }
+                    literal += char;
+                }
+            }
+
+            if (!core) {
+                return pattern;
+            }
+
+            pattern.suffix = literal;
+
+            let parts = core.split(".");
+            let decimals = parts[1] || "";
+
+            pattern.grouping = parts[0].replace(/,+$/, "").indexOf(",") >= 0;
+            pattern.decimals = decimals.replace(/[^0]/g, "").length;
+            pattern.optionalDecimals = decimals.replace(/[^#]/g, "").length;
+
+            return pattern;
+        }
+
+        private static trimOptionalDecimals(text: string, decimals: number): string {
+            let point = text.indexOf(".");
+
+            if (point < 0) {
+                return text;
+            }
+
+            let end = text.length;
+
+            while (end > point + 1 + decimals && text[end - 1] === "0") {
+                end--;
+            }
+
+            return text.substring(0, end === point + 1 ? point : end);
+        }
+
+        private static group(text: string): string {
+            let parts = text.split(".");
+            parts[0] = parts[0].replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+
+            return parts.join(".");
+        }
+    }
+}
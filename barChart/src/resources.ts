@@ -1,80 +1,124 @@
 module powerbi.extensibility.visual {
 
+    export interface StringResources {
+        [key: string]: string;
+    }
+
     export class Resources {
 
-        constructor(items: { [key: string]: LocalizedResource }) {
-            this.items = items;
+        public static defaultLocale = "en-US";
+
+        // the host reads the JSON files pbiviz.json lists under stringResources and answers for the report's locale,
+        // keys it has no string for fall back to the dictionaries passed in here
+        constructor(localizationManager: ILocalizationManager, localization: Localization = {}) {
+            this.localizationManager = localizationManager;
+            this.localization = localization;
         }
 
-        private items: { [key: string]: LocalizedResource };
-
-        public getLocalString(key: string, locale: string): string {
-            if (locale && key) {
-                let item = this.items[key];
-                if (item) {
-                    let translation = item.localization[locale];
-                    if (translation) {
-                        return translation;
-                    }
-                    else {
-                        return item.defaultValue;
-                    }
+        private localizationManager: ILocalizationManager;
+        private localization: Localization;
+        private reported: { [key: string]: boolean } = {};
+
+        // "de-AT" is looked up in de-AT, then de, then the default locale; {0}, {1}... are replaced by args
+        public getLocalString(key: string, locale: string, ...args: PrimitiveValue[]): string {
+            let text = this.getString(key, locale);
+
+            if (text == null) {
+                if (!this.reported[key]) {
+                    this.reported[key] = true;
+                    console.warn(`barChart: no string resource for "${key}" in "${locale}" or the default locale`);
                 }
+
+                return key;
             }
+
+            return text.replace(/\{(\d+)\}/g, (match, index) => args[index] != null ? String(args[index]) : match);
         }
-    }
 
-    export interface LocalizedResource {
+        private getString(key: string, locale: string): string {
+            // the host hands back the key itself when none of its files has it
+            let displayName = this.localizationManager && this.localizationManager.getDisplayName(key);
+
+            if (displayName && displayName !== key) {
+                return displayName;
+            }
 
-        defaultValue: string;
-        localization: Localization;
+            for (let candidate of Resources.getFallbackChain(locale)) {
+                let strings = this.localization[candidate];
 
+                if (strings && strings[key] != null) {
+                    return strings[key];
+                }
+            }
+
+            return null;
+        }
+
+        private static getFallbackChain(locale: string): string[] {
+            let chain: string[] = [];
+
+            if (locale) {
+                chain.push(locale);
+
+                let language = locale.split("-")[0];
+
+                if (language !== locale) {
+                    chain.push(language);
+                }
+            }
+
+            chain.push(Resources.defaultLocale);
+
+            return chain;
+        }
     }
 
+    // the locales Power BI reports, language-only keys such as "de" catch the regional ones without their own strings
     export interface Localization {
-        "ar-SA"?: string;
-        "bg-BG"?: string;
-        "ca-ES"?: string;
-        "cs-CZ"?: string;
-        "da-DK"?: string;
-        "de-DE"?: string;
-        "el-GR"?: string;
-        "en-US"?: string;
-        "es-ES"?: string;
-        "et-EE"?: string;
-        "eU-ES"?: string;
-        "fi-FI"?: string;
-        "fr-FR"?: string;
-        "gl-ES"?: string;
-        "he-IL"?: string;
-        "hi-IN"?: string;
-        "hr-HR"?: string;
-        "hu-HU"?: string;
-        "id-ID"?: string;
-        "it-IT"?: string;
-        "ja-JP"?: string;
-        "kk-KZ"?: string;
-        "ko-KR"?: string;
-        "it-LT"?: string;
-        "lv-LV"?: string;
-        "ms-MY"?: string;
-        "nb-NO"?: string;
-        "nl-NL"?: string;
-        "pl-PL"?: string;
-        "pt-BR"?: string;
-        "pt-PT"?: string;
-        "ro-RO"?: string;
-        "ru-RU"?: string;
-        "sk-SK"?: string;
-        "sl-SI"?: string;
-        "sr-Cyrl-RS"?: string;
-        "sr-Latn-RS"?: string;
-        "sv-SE"?: string;
-        "th-TH"?: string;
-        "tr-TR"?: string;
-        "uk-UA"?: string;
-        "vi-VN"?: string;
-        "zh-CN"?: string;
-        "zh-TW"?: string;
+        [locale: string]: StringResources;
+        "ar-SA"?: StringResources;
+        "bg-BG"?: StringResources;
+        "ca-ES"?: StringResources;
+        "cs-CZ"?: StringResources;
+        "da-DK"?: StringResources;
+        "de-DE"?: StringResources;
+        "el-GR"?: StringResources;
+        "en-US"?: StringResources;
+        "es-ES"?: StringResources;
+        "et-EE"?: StringResources;
+        "eu-ES"?: StringResources;
+        "fi-FI"?: StringResources;
+        "fr-FR"?: StringResources;
+        "gl-ES"?: StringResources;
+        "he-IL"?: StringResources;
+        "hi-IN"?: StringResources;
+        "hr-HR"?: StringResources;
+        "hu-HU"?: StringResources;
+        "id-ID"?: StringResources;
+        "it-IT"?: StringResources;
+        "ja-JP"?: StringResources;
+        "kk-KZ"?: StringResources;
+        "ko-KR"?: StringResources;
+        "lt-LT"?: StringResources;
+        "lv-LV"?: StringResources;
+        "ms-MY"?: StringResources;
+        "nb-NO"?: StringResources;
+        "nl-NL"?: StringResources;
+        "pl-PL"?: StringResources;
+        "pt-BR"?: StringResources;
+        "pt-PT"?: StringResources;
+        "ro-RO"?: StringResources;
+        "ru-RU"?: StringResources;
+        "sk-SK"?: StringResources;
+        "sl-SI"?: StringResources;
+        "sr-Cyrl-RS"?: StringResources;
+        "sr-Latn-RS"?: StringResources;
+        "sv-SE"?: StringResources;
+        "th-TH"?: StringResources;
+        "tr-TR"?: StringResources;
+        "uk-UA"?: StringResources;
+        "vi-VN"?: StringResources;
+        "zh-CN"?: StringResources;
+        "zh-TW"?: StringResources;
     }
-}
\ No newline at end of file
+}
@@ -25,20 +25,159 @@
  */
 
 module powerbi.extensibility.visual {
-    // "use strict";
-    // import DataViewObjectsParser = powerbi.extensibility.utils.dataview.DataViewObjectsParser;
+    "use strict";
+    import DataViewObjectsParser = powerbi.extensibility.utils.dataview.DataViewObjectsParser;
 
-    // export class xAxisSettings {
-    //     public show: boolean = true;
-    // }
+    export class AxisSettings {
+        public show: boolean = true;
+        public padding: number = 0;
+        public color: string = "#777777";
+        public showTitle: boolean = false;
+        // empty falls back to the display name of the fields on the axis
+        public titleText: string = "";
+        // the rest only applies while the axis shows values
+        public gridlines: boolean = false;
+        public start: number = null;
+        public end: number = null;
+        public displayUnits: number = 0;
+        public scaleType: string = "linear";
+    }
 
-    // export class yAxisSettings {
-    //     public show: boolean = true;
-    // }
+    export class BorderSettings {
+        public top: number = 10;
+        public right: number = 10;
+    }
 
-    // export class VisualSettings extends DataViewObjectsParser {
-    //     public xAxis: xAxisSettings = new xAxisSettings();
-    //     public yAxis: yAxisSettings = new yAxisSettings();
-    // }
+    export class LayoutSettings {
+        public mode: string = "clustered";
+        public orientation: string = "vertical";
+    }
+
+    export class AnimationSettings {
+        public show: boolean = true;
+        public duration: number = 250;
+    }
+
+    export class ScrollSettings {
+        public minCategoryWidth: number = 20;
+    }
+
+    export class SmallMultiplesSettings {
+        // every panel on the same value scale, or each fitted to its own bars
+        public sharedAxis: boolean = true;
+    }
+
+    export class TableViewSettings {
+        // an HTML table of the same data in place of the chart, for screen readers and keyboard users
+        public show: boolean = false;
+    }
+
+    export class SortSettings {
+        public order: string = "data";
+    }
+
+    export class NegativeBarsSettings {
+        public show: boolean = false;
+        public fill: string = "#D64550";
+    }
+
+    export class ColorRulesSettings {
+        public show: boolean = false;
+        public rule1Operator: string = "lessThan";
+        public rule1Value: number = 0;
+        public rule1Color: string = "#D64550";
+        public rule2Operator: string = "greaterThan";
+        public rule2Value: number = null;
+        public rule2Color: string = "#1AAB40";
+        public rule3Operator: string = "equal";
+        public rule3Value: number = null;
+        public rule3Color: string = "#F2C80F";
+    }
+
+    export class ColorGradientSettings {
+        public show: boolean = false;
+        public minColor: string = "#D64550";
+        public midColor: string = "#F2C80F";
+        public maxColor: string = "#1AAB40";
+        public diverging: boolean = false;
+        public minValue: number = null;
+        public midValue: number = null;
+        public maxValue: number = null;
+    }
+
+    export class LabelSettings {
+        public show: boolean = false;
+        public position: string = "outsideEnd";
+        public color: string = "#777777";
+        public fontSize: number = 9;
+        public displayUnits: number = 0;
+        public precision: number = null;
+    }
+
+    export class ReferenceLineSettings {
+        constructor(color: string) {
+            this.color = color;
+        }
+
+        public show: boolean = false;
+        public color: string;
+        public style: string = "dashed";
+        public showLabel: boolean = true;
+        public label: string = "";
+    }
+
+    export class PercentileLineSettings extends ReferenceLineSettings {
+        public percentile: number = 75;
+    }
+
+    export class ConstantLineSettings extends ReferenceLineSettings {
+        public value: number = 0;
+    }
+
+    export class TrendLineSettings {
+        public show: boolean = false;
+        public color: string = "#333333";
+        public style: string = "dashed";
+        // categories projected past the last one, 0 for none
+        public forecast: number = 0;
+    }
+
+    export class MovingAverageSettings {
+        public show: boolean = false;
+        public color: string = "#A66999";
+        public style: string = "solid";
+        public period: number = 3;
+    }
+
+    export class DeviationSettings {
+        // the baseline and deviation rows in the tooltips
+        public show: boolean = true;
+        public baseline: string = "average";
+    }
+
+    export class VisualSettings extends DataViewObjectsParser {
+        public xAxis: AxisSettings = new AxisSettings();
+        public yAxis: AxisSettings = new AxisSettings();
+        public border: BorderSettings = new BorderSettings();
+        public layout: LayoutSettings = new LayoutSettings();
+        public sort: SortSettings = new SortSettings();
+        public negativeBars: NegativeBarsSettings = new NegativeBarsSettings();
+        public colorRules: ColorRulesSettings = new ColorRulesSettings();
+        public colorGradient: ColorGradientSettings = new ColorGradientSettings();
+        public labels: LabelSettings = new LabelSettings();
+        public averageLine: ReferenceLineSettings = new ReferenceLineSettings("#01B8AA");
+        public medianLine: ReferenceLineSettings = new ReferenceLineSettings("#374649");
+        public minLine: ReferenceLineSettings = new ReferenceLineSettings("#FD625E");
+        public maxLine: ReferenceLineSettings = new ReferenceLineSettings("#8AD4EB");
+        public percentileLine: PercentileLineSettings = new PercentileLineSettings("#A66999");
+        public constantLine: ConstantLineSettings = new ConstantLineSettings("#F2C80F");
+        public trendLine: TrendLineSettings = new TrendLineSettings();
+        public movingAverage: MovingAverageSettings = new MovingAverageSettings();
+        public deviation: DeviationSettings = new DeviationSettings();
+        public animation: AnimationSettings = new AnimationSettings();
+        public scroll: ScrollSettings = new ScrollSettings();
+        public smallMultiples: SmallMultiplesSettings = new SmallMultiplesSettings();
+        public tableView: TableViewSettings = new TableViewSettings();
+    }
 
 }
@@ -0,0 +1,44 @@
+module powerbi.extensibility.visual {
+
+    export interface Regression {
+        slope: number;
+        intercept: number;
+
+        // share of the variance the line explains, null when the values don't vary
+        rSquared: number;
+    }
+
+    export class Trends {
+
+        // least squares fit of [x, y] points, null with fewer than two distinct x values
+        public static linearRegression(points: number[][]): Regression {
+            let n = points.length;
+            let meanX = d3.mean(points, p => p[0]);
+            let meanY = d3.mean(points, p => p[1]);
+            let sxx = d3.sum(points, p => (p[0] - meanX) * (p[0] - meanX));
+            let sxy = d3.sum(points, p => (p[0] - meanX) * (p[1] - meanY));
+
+            if (n < 2 || sxx === 0) {
+                return null;
+            }
+
+            let slope = sxy / sxx;
+            let intercept = meanY - slope * meanX;
+            let total = d3.sum(points, p => (p[1] - meanY) * (p[1] - meanY));
+            let residual = d3.sum(points, p => Math.pow(p[1] - (intercept + slope * p[0]), 2));
+
+            return {
+                slope: slope,
+                intercept: intercept,
+                rSquared: total > 0 ? 1 - residual / total : null
+            };
+        }
+
+        // trailing average of the last period values, null until that many values have been seen
+        public static movingAverage(values: number[], period: number): number[] {
+            return values.map((v, i) => i + 1 < period
+                ? null
+                : d3.mean(values.slice(i + 1 - period, i + 1)));
+        }
+    }
+}
@@ -27,365 +27,2545 @@ import DataViewObjects = powerbi.extensibility.utils.dataview.DataViewObjects;
 
 module powerbi.extensibility.visual {
 
+    // showContextMenu came after the 2.1.0 API this visual builds against, hosts that have it still expose it
+    interface ContextMenuSelectionManager extends ISelectionManager {
+        showContextMenu?(selectionId: ISelectionId | {}, position: { x: number; y: number }): IPromise<{}>;
+    }
+
+    interface DataState {
+
+        // resource key of the message shown in place of the chart
+        message: string;
+
+        error: boolean;
+
+    }
+
     interface DataPoint {
+        // the identity key of the bar's category, its text is in the view model's categoryLabels
         category: string;
+        // the key of the bar's panel
+        panel: string;
+        series: number;
         value: number;
+        start: number;
+        end: number;
         colour: string;
+        assignedColour: string;
         identity: powerbi.visuals.ISelectionId;
         highlighted: boolean;
         tooltips: VisualTooltipDataItem[];
-    };
+    }
+
+    // the colour a single measure has for one category, the same in every panel
+    interface CategoryColour {
+        category: string;
+        colour: string;
+        identity: powerbi.visuals.ISelectionId;
+    }
+
+    interface Series {
+        name: string;
+        queryName: string;
+        format: string;
+        formatter: ValueFormatter;
+        colour: string;
+        reference: number;
+    }
+
+    interface ReferenceLine {
+        type: string;
+        value: number;
+        label: string;
+    }
+
+    interface OverlayPoint {
+        category: string;
+        value: number;
+    }
+
+    interface Overlay {
+
+        // "trend", "projection" or "movingAverage"
+        type: string;
+
+        // null when the overlay follows the stack totals
+        series: number;
+
+        label: string;
+        points: OverlayPoint[];
+        rSquared: number;
+
+    }
+
+    interface ColorRule {
+        operator: string;
+        limit: number;
+        color: string;
+    }
+
+    // the host's colours while its high contrast mode is on
+    interface HighContrastColors {
+        foreground: string;
+        background: string;
+        selected: string;
+    }
+
+    // the parts of a linear or log scale the value axis and the marks use
+    interface ValueScale {
+        (value: number): number;
+        domain(): number[];
+        range(): number[];
+        range(values: number[]): ValueScale;
+        ticks(count: number): number[];
+    }
+
+    interface TableColumn {
+        key: string;
+        title: string;
+        text: (d: DataPoint) => string;
+        // a list compares item by item, for categories with expanded levels
+        sortValue: (d: DataPoint) => PrimitiveValue | PrimitiveValue[];
+    }
+
+    interface TableSort {
+        key: string;
+        descending: boolean;
+    }
+
+    // one chart of the small multiples grid, or the whole chart when no small multiples field is bound
+    interface Panel {
+        // the identity key of the panel's value, titles can repeat where raw values only print alike
+        key: string;
+        name: string;
+        categories: string[];
+        dataPoints: DataPoint[];
+        minValue: number;
+        maxValue: number;
+        referenceLines: ReferenceLine[];
+        overlays: Overlay[];
+    }
 
     interface ViewModel {
+        categories: string[];
+        categoryName: string;
+        series: Series[];
         dataPoints: DataPoint[];
+        panels: Panel[];
+        categoryColours: CategoryColour[];
+        smallMultiples: boolean;
+        panelName: string;
+
+        // placeholder categories the trend line is projected onto, keyed apart from any real category
+        projection: string[];
+        // what the axis shows for each category and placeholder
+        categoryLabels: { [category: string]: string };
+        // the value of each level of a category, from the top of the hierarchy down
+        categoryValues: { [category: string]: PrimitiveValue[] };
+
+        minValue: number;
         maxValue: number;
         highlights: boolean;
-        average: number;
-    };
+    }
 
     export class Visual implements IVisual {
 
         private host: IVisualHost;
         private svg: d3.Selection<SVGElement>;
-        private barGroup: d3.Selection<SVGElement>;
+        private patterns: d3.Selection<SVGElement>;
+        private patternPrefix: string;
+        private landingPage: d3.Selection<HTMLElement>;
+        private tableContainer: d3.Selection<HTMLElement>;
+        private table: d3.Selection<HTMLElement>;
+        private tableSort: TableSort = null;
+        private panelGroup: d3.Selection<SVGElement>;
+        private panelGap: number = 12;
         private xPadding: number = 0.1;
+        private axisLabelGap: number = 8;
+        private maxCategoryAxisShare: number = 0.3;
+        private defaultLineHeight: number = 12;
+        private textMeasure: d3.Selection<SVGElement>;
+        private seriesPadding: number = 0.05;
+        private static referenceLineTypes = ["average", "median", "min", "max", "percentile", "constant"];
+        private static valueAxisProperties = ["gridlines", "start", "end", "displayUnits", "scaleType"];
+        private static ruleOperators: { [operator: string]: (value: number, limit: number) => boolean } = {
+            lessThan: (value, limit) => value < limit,
+            lessOrEqual: (value, limit) => value <= limit,
+            equal: (value, limit) => value === limit,
+            greaterOrEqual: (value, limit) => value >= limit,
+            greaterThan: (value, limit) => value > limit
+        };
+        private static colorObjects = ["dataColors", "negativeBars", "colorRules", "colorGradient"];
+        private static projectionKeyPrefix = "\u0000projection:";
+        // hatch angles for the second series onwards in high contrast, the spacing widens once they run out
+        private static hatchAngles = [45, 135, 0, 90];
+        private static instanceCount = 0;
         private selectionManager: ISelectionManager;
-        private xAxisGroup: d3.Selection<SVGElement>;
-        private yAxisGroup: d3.Selection<SVGElement>;
         private viewModel: ViewModel;
+        private visibleDataPoints: DataPoint[] = [];
+        private focusedKey: string;
+        private viewport: IViewport;
+        private scrollOffset: number = 0;
+        private visibleCategoryCount: number = 0;
+        private scrollbar: d3.Selection<SVGElement>;
+        private scrollbarSize: number = 8;
+        private brushSize: number = 12;
+        // set by a drag of the brush, whose click lands on the background when the mouse is let go outside the brush
+        private brushDragged: boolean = false;
+        private scrollPosition: number = 0;
+        private scrollRatio: number = 0;
+        private segment: DataViewSegmentMetadata = null;
+        private requestedSegment: DataViewSegmentMetadata = null;
         private locale: string;
+        private highContrast: HighContrastColors = null;
 
-        private resources = new Resources({
-            "DeviationAbsolute": {
-                defaultValue: "Deviation (abs)",
-                localization: {
-                    "pt-PT": "Desvio (abs)"
-                }
-            },
-            "DeviationPercent": {
-                defaultValue: "Deviation (%)",
-                localization: {
-                    "pt-PT": "Desvio (%)"
-                }
-            }
-        });
-
-        private settings = {
-            axis: {
-                x: {
-                    padding: {
-                        default: 50,
-                        value: 50
-                    },
-                    show: {
-                        default: true,
-                        value: true
-                    }
-                },
-                y: {
-                    padding: {
-                        default: 50,
-                        value: 50
-                    },
-                    show: {
-                        default: true,
-                        value: true
-                    }
-                }
-            },
-            border: {
-                top: {
-                    default: 10,
-                    value: 10
-                }
-            }
-        }
+        private resources: Resources;
+
+        private settings: VisualSettings;
 
         constructor(options: VisualConstructorOptions) {
             this.host = options.host;
 
             this.locale = this.host.locale;
+            this.resources = new Resources(this.host.createLocalizationManager());
 
             this.svg = d3.select(options.element)
                 .append("svg")
-                .classed("my-little-bar-chart", true);
+                .classed("my-little-bar-chart", true)
+                .attr({
+                    role: "listbox",
+                    "aria-multiselectable": true,
+                    "aria-label": this.resources.getLocalString("ChartLabel", this.locale)
+                });
+
+            // pattern ids have to be unique in the document, more than one visual can share it
+            this.patternPrefix = `bar-chart-${++Visual.instanceCount}-series-`;
+            this.patterns = this.svg.append("defs");
+
+            this.landingPage = d3.select(options.element)
+                .append("div")
+                .classed("landing-page", true)
+                .attr({
+                    role: "status"
+                })
+                .style({
+                    display: "none"
+                });
 
-            this.barGroup = this.svg
+            // the alternate table view, shown instead of the svg when tableView.show is on
+            this.tableContainer = d3.select(options.element)
+                .append("div")
+                .classed("data-table-container", true)
+                .style({
+                    display: "none"
+                });
+
+            this.table = this.tableContainer
+                .append("table")
+                .classed("data-table", true)
+                .attr({
+                    role: "grid",
+                    "aria-multiselectable": true,
+                    "aria-label": this.resources.getLocalString("ChartLabel", this.locale)
+                });
+
+            this.table.append("thead").append("tr");
+            this.table.append("tbody");
+
+            // each panel holds its own bars, axes and lines, see render
+            this.panelGroup = this.svg
                 .append("g")
-                .classed("bar-group", true);
-
-            this.xAxisGroup = this.svg.append("g")
-                .classed("x-axis", true);
-            
-            this.yAxisGroup = this.svg.append("g")
-                .classed("y-axis", true);
-            
+                .classed("panel-group", true);
+
+            // hidden text used to measure axis labels before the axes are laid out
+            this.textMeasure = this.svg.append("text")
+                .classed("text-measure", true)
+                .style({
+                    visibility: "hidden",
+                    "font-size": "x-small"
+                });
+
+            this.scrollbar = this.svg.append("g")
+                .classed("scrollbar", true)
+                .on("click", () => (<Event>d3.event).stopPropagation());
+
+            this.scrollbar.append("rect")
+                .classed("scrollbar-track", true);
+
+            this.scrollbar.append("rect")
+                .classed("scrollbar-thumb", true)
+                .call(d3.behavior.drag()
+                    .on("drag", () => {
+                        let event = <d3.DragEvent>d3.event;
+                        let horizontal = this.settings.layout.orientation === "horizontal";
+
+                        this.scrollPosition += (horizontal ? event.dy : event.dx) * this.scrollRatio;
+                        this.scrollTo(Math.round(this.scrollPosition));
+                    })
+                    .on("dragstart", () => {
+                        this.scrollPosition = this.scrollOffset;
+                        (<d3.BaseEvent>d3.event).sourceEvent.stopPropagation();
+                    }));
+
+            this.svg.on("wheel", () => {
+                let event = <WheelEvent>d3.event;
+
+                if (this.viewModel && this.visibleCategoryCount < this.viewModel.categories.length) {
+                    event.preventDefault();
+                    this.scrollTo(this.scrollOffset + ((event.deltaY || event.deltaX) > 0 ? 1 : -1));
+                }
+            });
+
             this.selectionManager = this.host.createSelectionManager();
+
+            this.selectionManager.registerOnSelectCallback(ids => this.syncSelectionState(ids));
+
+            // every click starts with a mousedown, so a drag whose click never reached the svg can't swallow the next one
+            this.svg.on("mousedown", () => {
+                this.brushDragged = false;
+            });
+
+            this.svg.on("click", () => {
+                if (this.brushDragged) {
+                    this.brushDragged = false;
+                    return;
+                }
+
+                this.selectionManager
+                    .clear()
+                    .then(() => this.syncSelectionState([]));
+            });
+
+            // the background gets the menu without a data point, like the empty area of core visuals
+            this.svg.on("contextmenu", () => this.showContextMenu(null));
         }
 
         public enumerateObjectInstances(options: EnumerateVisualObjectInstancesOptions): VisualObjectInstanceEnumeration {
             let objectName = options.objectName;
             let objectEnumeration: VisualObjectInstance[] = [];
+            let settings: VisualSettings = this.settings ||
+                VisualSettings.getDefault() as VisualSettings;
+
+            // high contrast draws with the host's colours only, so colour choices would be ignored
+            if (this.highContrast && Visual.colorObjects.indexOf(objectName) >= 0) {
+                return objectEnumeration;
+            }
 
-            switch(objectName) {
+            switch (objectName) {
+                case 'dataColors':
+                    if (this.viewModel && this.viewModel.series.length > 1) {
+                        for (let series of this.viewModel.series) {
+                            objectEnumeration.push({
+                                objectName: objectName,
+                                displayName: series.name,
+                                properties: {
+                                    fill: series.colour,
+                                },
+                                selector: { metadata: series.queryName }
+                            });
+                        }
+                    }
+                    else if (this.viewModel) {
+                        for (let categoryColour of this.viewModel.categoryColours) {
+                            objectEnumeration.push({
+                                objectName: objectName,
+                                displayName: this.viewModel.categoryLabels[categoryColour.category],
+                                properties: {
+                                    fill: categoryColour.colour,
+                                },
+                                selector: categoryColour.identity.getSelector()
+                            });
+                        }
+                    }
+                    break;
                 case 'xAxis':
+                case 'yAxis':
+                    let axis: AxisSettings = settings[objectName];
+                    let horizontal = settings.layout.orientation === "horizontal";
+                    let showsValues = (objectName === "xAxis") === horizontal;
+                    let properties: { [name: string]: DataViewPropertyValue } = {};
+
+                    // range, units and scale type only mean something on the value axis
+                    for (let name of Object.keys(axis)) {
+                        if ((showsValues || Visual.valueAxisProperties.indexOf(name) < 0) && !(this.highContrast && name === "color")) {
+                            properties[name] = axis[name];
+                        }
+                    }
+
                     objectEnumeration.push({
                         objectName: objectName,
-                        properties: {
-                            show: this.settings.axis.x.show.value,
-                        },
+                        properties: properties,
                         selector: null
                     });
                     break;
-                case 'yAxis':
+                default:
+                    if (!this.highContrast || !settings[objectName]) {
+                        return VisualSettings.enumerateObjectInstances(settings, options);
+                    }
+
+                    let objectProperties: { [name: string]: DataViewPropertyValue } = {};
+
+                    for (let name of Object.keys(settings[objectName])) {
+                        if (name !== "color") {
+                            objectProperties[name] = settings[objectName][name];
+                        }
+                    }
+
                     objectEnumeration.push({
                         objectName: objectName,
-                        properties: {
-                            show: this.settings.axis.y.show.value,
-                        },
+                        properties: objectProperties,
                         selector: null
                     });
-                    break;
-                case 'dataColors':
-                    if(this.viewModel) {
-                        for(let dp of this.viewModel.dataPoints) {
-                            objectEnumeration.push({
-                                objectName: objectName,
-                                displayName: dp.category,
-                                properties: {
-                                    fill: dp.colour,
-                                },
-                                selector: dp.identity.getSelector()
-                            });
-                        }
-                    }
-                    break;
-            };
+            }
 
             return objectEnumeration;
         }
 
         public update(options: VisualUpdateOptions) {
-            this.updateSettings(options);
+            let dataView = options.dataViews && options.dataViews[0];
 
-            this.viewModel = this.getViewModel(options);
+            this.settings = VisualSettings.parse<VisualSettings>(dataView);
+            this.settings.xAxis.padding = Math.max(0, this.settings.xAxis.padding);
+            this.settings.yAxis.padding = Math.max(0, this.settings.yAxis.padding);
+            this.settings.border.top = Math.max(0, this.settings.border.top);
+            this.settings.border.right = Math.max(0, this.settings.border.right);
+            this.settings.labels.fontSize = Math.max(1, this.settings.labels.fontSize);
+            this.settings.percentileLine.percentile = Math.max(0, Math.min(100, this.settings.percentileLine.percentile));
+            this.settings.trendLine.forecast = Math.max(0, Math.min(12, Math.round(this.settings.trendLine.forecast)));
+            this.settings.movingAverage.period = Math.max(2, Math.min(50, Math.round(this.settings.movingAverage.period)));
+            this.settings.animation.duration = Math.max(0, Math.min(5000, this.settings.animation.duration));
+            this.settings.scroll.minCategoryWidth = Math.max(1, this.settings.scroll.minCategoryWidth);
 
-            let width = options.viewport.width;
-            let height = options.viewport.height;
-            
-            let xAxisPadding = this.settings.axis.x.show.value ? this.settings.axis.x.padding.value : 0;
-            let yAxisPadding = this.settings.axis.y.show.value ? this.settings.axis.y.padding.value : 0;
+            this.highContrast = this.getHighContrastColors();
 
-            this.svg.attr({
-                width: width,
-                height: height
-            });
+            if (this.highContrast) {
+                this.applyHighContrast(this.settings, this.highContrast.foreground);
+            }
 
-            let yScale = d3.scale.linear()
-                .domain([0, this.viewModel.maxValue])
-                .range([height - xAxisPadding, 0 + this.settings.border.top.value]);
-            
-            let yAxis = d3.svg.axis()
-                .scale(yScale)
-                .orient("left")
-                .tickSize(1);
-            
-            this.yAxisGroup
-                .call(yAxis)
-                .attr({
-                    transform: `translate(${yAxisPadding},0)`
-                })
-                .style({
-                    fill: "#777777"
-                })
-                .selectAll("text")
-                .style({
-                    "text-anchor": "end",
-                    "font-size": "x-small"
-                });
+            this.viewport = options.viewport;
 
-            let xScale = d3.scale.ordinal()
-                .domain(this.viewModel.dataPoints.map(d => d.category))
-                .rangeRoundBands([yAxisPadding, width], this.xPadding);
-            
-            let xAxis = d3.svg.axis()
-                .scale(xScale)
-                .orient("bottom")
-                .tickSize(1);
+            // unbound roles or unusable values get a message instead of an empty or broken chart
+            let state = this.getDataState(dataView);
 
-            this.xAxisGroup
-                .call(xAxis)
-                .attr({
-                    transform: `translate(0,${height - xAxisPadding})`
-                })
-                .style({
-                    fill: "#777777"
-                })
-                .selectAll("text")
-                .attr({
-                    transform: "rotate(-35)"
-                })
-                .style({
-                    "text-anchor": "end",
-                    "font-size": "x-small"
-                });
+            this.renderLandingPage(state);
 
-            let bars = this.barGroup
-                .selectAll(".bar")
-                .data(this.viewModel.dataPoints);
+            this.tableContainer.style({
+                display: !state && this.settings.tableView.show ? null : "none"
+            });
 
-            bars.enter()
-                .append("rect")
-                .classed("bar", true);
+            if (state) {
+                this.viewModel = this.getViewModel(null);
+                this.visibleDataPoints = [];
+                return;
+            }
 
-            bars
-                .attr({
-                    width: xScale.rangeBand(),
-                    height: d => height - yScale(d.value) - xAxisPadding,
-                    y: d => yScale(d.value),
-                    x: d => xScale(d.category)
-                })
-                .style({
-                    fill: d => d.colour,
-                    "fill-opacity": d => this.viewModel.highlights ? d.highlighted ? 1.0 : 0.5 : 1.0
-                })
-                .on("click", d => {
-                    this.selectionManager
-                        .select(d.identity, true)
-                        .then(ids => {
-                            bars.style({
-                                "fill-opacity": ids.length > 0 ?
-                                    d => ids.indexOf(d.identity) >= 0 ? 1.0 : 0.5
-                                    : 1.0
-                            });
-                        });
-                })
-                .on("mouseover", d => {
-                    let mouse = d3.mouse(this.svg.node());
-                    let x = mouse[0];
-                    let y = mouse[1];
-                    
-                    this.host.tooltipService.show({
-                        dataItems: d.tooltips,
-                        identities: [d.identity],
-                        coordinates: [x, y],
-                        isTouchEvent: false
-                    });
-                })
-                .on("mousemove", d => {
-                    let mouse = d3.mouse(this.svg.node());
-                    let x = mouse[0];
-                    let y = mouse[1];
-                    
-                    this.host.tooltipService.move({
-                        dataItems: d.tooltips,
-                        identities: [d.identity],
-                        coordinates: [x, y],
-                        isTouchEvent: false
-                    });
-                })
-                .on("mouseout", d => {
-                    this.host.tooltipService.hide({
-                        immediately: true,
-                        isTouchEvent: false
-                    });
+            this.viewModel = this.getViewModel(options);
+
+            // the host only hands over one window of categories, more come with fetchMoreData
+            this.segment = dataView && dataView.metadata && dataView.metadata.segment || null;
+
+            if (this.settings.tableView.show) {
+                this.svg.style({
+                    display: "none"
                 });
+                this.renderTable();
+                return;
+            }
 
-            bars.exit()
-                .remove();
+            this.render();
         }
 
-        private updateSettings(options: VisualUpdateOptions) {
-            this.settings.axis.x.show.value = DataViewObjects.getValue(
-                options.dataViews[0].metadata.objects, {
-                    objectName: "xAxis",
-                    propertyName: "show"
-                },
-                this.settings.axis.x.show.default);
+        private getHighContrastColors(): HighContrastColors {
+            let palette = this.host.colorPalette;
 
-            this.settings.axis.y.show.value = DataViewObjects.getValue(
-                options.dataViews[0].metadata.objects, {
-                    objectName: "yAxis",
-                    propertyName: "show"
-                },
-                this.settings.axis.y.show.default);
+            return palette.isHighContrast ? {
+                foreground: palette.foreground.value,
+                background: palette.background.value,
+                selected: palette.foregroundSelected.value
+            } : null;
         }
 
-        private getViewModel(options: VisualUpdateOptions): ViewModel {
-
-            let dv = options.dataViews;
+        // every line and text takes the foreground, and the colouring rules step aside
+        private applyHighContrast(settings: VisualSettings, foreground: string) {
+            settings.xAxis.color = foreground;
+            settings.yAxis.color = foreground;
+            settings.labels.color = foreground;
+            settings.trendLine.color = foreground;
+            settings.movingAverage.color = foreground;
+            settings.negativeBars.show = false;
+            settings.colorRules.show = false;
+            settings.colorGradient.show = false;
 
-            let viewModel: ViewModel = {
-                dataPoints: [],
-                maxValue: 0,
-                highlights: false,
-                average: 0
-            };
+            for (let type of Visual.referenceLineTypes) {
+                this.getReferenceLineSettings(type).color = foreground;
+            }
+        }
 
-            if (!dv
-                || !dv[0]
-                || !dv[0].categorical
-                || !dv[0].categorical.categories
-                || !dv[0].categorical.categories[0].source
-                || !dv[0].categorical.values
-                || !dv[0].metadata)
-                return viewModel;
+        private getDataState(dataView: DataView): DataState {
+            let categorical = dataView && dataView.categorical;
+            let measures = categorical && categorical.values
+                ? categorical.values.filter(column => column.source.roles["measure"])
+                : [];
+            let categories = categorical && categorical.categories
+                ? categorical.categories.filter(column => column.source.roles["category"])
+                : [];
 
-            let view = dv[0].categorical;
-            let categories = view.categories[0];
-            let values = view.values[0];
-            let highlights = values.highlights;
-            let objects = categories.objects;
-            let metadata = dv[0].metadata;
-            let categoryColumnName = metadata.columns.filter(c => c.roles["category"])[0].displayName;
-            let valueColumnName = metadata.columns.filter(c => c.roles["measure"])[0].displayName;
-
-            for (let i = 0, len = Math.max(categories.values.length, values.values.length); i < len; i++) {
-                viewModel.dataPoints.push({
-                    category: <string>categories.values[i],
-                    value: <number>values.values[i],
-                    colour: objects && objects[i] && DataViewObjects.getFillColor(objects[i], {
-                        objectName: "dataColors",
-                        propertyName: "fill"
-                    }, null) || this.host.colorPalette.getColor(<string>categories.values[i]).value,
-                    identity: this.host.createSelectionIdBuilder()
-                        .withCategory(categories, i)
-                        .createSelectionId(),
-                    highlighted: highlights ? highlights[i] ? true : false : false,
-                    tooltips: [
-                        {
-                            displayName: categoryColumnName,
-                            value: <string>categories.values[i]
-                        },
-                        {
-                            displayName: valueColumnName,
-                            value: (<number>values.values[i]).toFixed(2)
-                        }
-                    ]
-                });
+            if (categories.length === 0 || measures.length === 0) {
+                return { message: "AddFields", error: false };
             }
 
-            viewModel.maxValue = d3.max(viewModel.dataPoints, d => d.value);
-            viewModel.highlights = viewModel.dataPoints.filter(d => d.highlighted).length > 0;
+            let values = d3.merge(measures.map(column => column.values));
+            let textColumns = measures.filter(column => column.source.type && !column.source.type.numeric && !column.source.type.integer);
 
-            if (viewModel.dataPoints.length > 0) {
-                viewModel.average = d3.sum(viewModel.dataPoints, d => d.value) / viewModel.dataPoints.length;
+            if (textColumns.length > 0 || values.some(v => v != null && typeof v !== "number")) {
+                return { message: "NotNumeric", error: true };
             }
 
-            for (let dp of viewModel.dataPoints) {
-                dp.tooltips.push({
-                    displayName: this.resources.getLocalString("DeviationAbsolute", this.locale),
-                    value: (dp.value - viewModel.average).toFixed(2)
+            if (values.every(v => v == null)) {
+                return { message: "NoValues", error: true };
+            }
+
+            return null;
+        }
+
+        private renderLandingPage(state: DataState) {
+            this.landingPage
+                .classed("error", !!state && state.error)
+                .style({
+                    display: state ? null : "none",
+                    color: this.highContrast ? this.highContrast.foreground : null
+                })
+                .text(state ? this.resources.getLocalString(state.message, this.locale) : "");
+
+            this.svg.style({
+                display: state ? "none" : null
+            });
+        }
+
+        private render() {
+            let width = this.viewport.width;
+            let height = this.viewport.height;
+            let panels = this.viewModel.panels;
+            let multiples = this.viewModel.smallMultiples;
+
+            this.svg
+                .classed("high-contrast", !!this.highContrast)
+                .attr({
+                    width: width,
+                    height: height
                 });
+
+            this.renderSeriesPatterns();
+
+            // the grid takes the shape of the visual: side by side in a wide one, stacked in a tall one
+            let columns = Math.max(1, Math.min(panels.length, Math.round(Math.sqrt(panels.length * width / Math.max(1, height)))));
+            let rows = Math.max(1, Math.ceil(panels.length / columns));
+            let gap = multiples ? this.panelGap : 0;
+            let titleHeight = multiples ? this.getLineHeight() : 0;
+            let panelWidth = Math.max(0, (width - gap * (columns - 1)) / columns);
+            let panelHeight = Math.max(0, (height - gap * (rows - 1)) / rows - titleHeight);
+
+            let panelElements = this.panelGroup
+                .selectAll(".panel")
+                .data(panels, panel => panel.key);
+
+            let entered = panelElements.enter()
+                .append("g")
+                .classed("panel", true);
+
+            for (let group of ["grid-group", "bar-group", "reference-group", "overlay-group", "label-group"]) {
+                entered.append("g").classed(group, true);
             }
 
-            if(viewModel.average !== 0) {
-                for (let dp of viewModel.dataPoints) {
-                    dp.tooltips.push({
-                        displayName: this.resources.getLocalString("DeviationPercent", this.locale),
-                        value: (100 * (dp.value - viewModel.average) / viewModel.average).toFixed(2) + "%"
-                    })
-                }
+            // the brush sits under the axes, so the labels it covers keep their hover and tooltips
+            entered.append("g").classed("brush", true);
+            entered.append("line").classed("baseline", true);
+            entered.append("g").classed("x-axis", true);
+            entered.append("g").classed("y-axis", true);
+            entered.append("text").classed("x-axis-title", true);
+            entered.append("text").classed("y-axis-title", true);
+            entered.append("text").classed("panel-title", true);
+
+            panelElements.exit()
+                .remove();
+
+            this.visibleDataPoints = [];
+
+            let categories: string[];
+            let scrollRange: number[];
+
+            panels.forEach((panel, i) => {
+                let element = panelElements.filter(d => d === panel);
+                let x = (i % columns) * (panelWidth + gap);
+                let y = Math.floor(i / columns) * (panelHeight + titleHeight + gap) + titleHeight;
+
+                element
+                    .attr({
+                        transform: `translate(${x},${y})`
+                    });
+
+                element.select(".panel-title")
+                    .attr({
+                        x: panelWidth / 2,
+                        y: -titleHeight,
+                        dy: "1em"
+                    })
+                    .style({
+                        display: multiples ? null : "none",
+                        fill: this.highContrast ? this.highContrast.foreground : null,
+                        "text-anchor": "middle",
+                        "font-size": "x-small"
+                    })
+                    .text(panel.name);
+
+                let result = this.renderPanel(element, panel, panelWidth, panelHeight);
+
+                categories = result.categories;
+                scrollRange = result.scrollRange;
+            });
+
+            if (!this.visibleDataPoints.some(d => d.identity.getKey() === this.focusedKey)) {
+                this.focusedKey = this.visibleDataPoints.length > 0 ? this.visibleDataPoints[0].identity.getKey() : null;
+            }
+
+            // only one bar sits in the tab order, the arrow keys move between them
+            this.svg.selectAll(".bar")
+                .attr("tabindex", (d: DataPoint) => d.identity.getKey() === this.focusedKey ? 0 : -1);
+
+            // the host keeps the selection across updates, so re-apply it to the new bars
+            this.syncSelectionState(this.selectionManager.getSelectionIds());
+
+            let scrolling = !!categories && categories.length < this.viewModel.categories.length;
+
+            // one scrollbar moves every panel, so it runs along the whole grid rather than the last panel
+            if (multiples && scrollRange) {
+                scrollRange = this.settings.layout.orientation === "horizontal" ? [0, height] : [0, width];
+            }
+
+            this.renderScrollbar(scrolling, categories ? categories.length : 0, scrollRange || [0, 0]);
+
+            // the next segment is requested once the window reaches the last loaded category, and only once
+            // for each segment, so neither a resize nor scrolling asks again, nor does a host that refused
+            if (this.segment && this.segment !== this.requestedSegment && categories
+                && this.scrollOffset + categories.length >= this.viewModel.categories.length) {
+                this.requestedSegment = this.segment;
+                this.host.fetchMoreData();
+            }
+        }
+
+        private renderTable() {
+            let columns = this.getTableColumns();
+            let dataPoints = this.viewModel.dataPoints;
+            let sort = this.tableSort;
+            let sortColumn = sort ? columns.filter(c => c.key === sort.key)[0] : null;
+            let rows = dataPoints.slice();
+
+            // without a sorted column the rows follow the bars
+            if (sortColumn) {
+                rows.sort((a, b) => (sort.descending ? -1 : 1) * Visual.compareSortValues(sortColumn.sortValue(a), sortColumn.sortValue(b))
+                    || dataPoints.indexOf(a) - dataPoints.indexOf(b));
+            }
+
+            this.tableContainer
+                .classed("high-contrast", !!this.highContrast)
+                .style({
+                    width: `${this.viewport.width}px`,
+                    height: `${this.viewport.height}px`,
+                    color: this.highContrast ? this.highContrast.foreground : null,
+                    background: this.highContrast ? this.highContrast.background : null
+                });
+
+            // the focus outline is drawn in the foreground in high contrast, as the bars' focus stroke is
+            let outlineColour = this.highContrast ? this.highContrast.foreground : null;
+
+            let headers = this.table.select("thead tr")
+                .selectAll("th")
+                .data(columns, c => c.key);
+
+            headers.enter()
+                .append("th")
+                .attr({
+                    scope: "col",
+                    tabindex: 0
+                })
+                .on("click", c => this.sortTable(c.key))
+                .on("keydown", c => {
+                    let event = <KeyboardEvent>d3.event;
+
+                    if (event.key === "Enter" || event.key === " " || event.key === "Spacebar") {
+                        event.preventDefault();
+                        this.sortTable(c.key);
+                    }
+                });
+
+            headers.exit()
+                .remove();
+
+            headers
+                .order()
+                .attr({
+                    "aria-sort": c => c !== sortColumn ? "none" : sort.descending ? "descending" : "ascending"
+                })
+                .style("outline-color", outlineColour)
+                .text(c => c.title);
+
+            let tableRows = this.table.select("tbody")
+                .selectAll("tr")
+                .data(rows, d => d.identity.getKey());
+
+            tableRows.enter()
+                .append("tr")
+                .on("keydown", d => this.onRowKeyDown(d))
+                .on("focus", d => {
+                    this.focusedKey = d.identity.getKey();
+                })
+                .on("click", d => {
+                    let event = <MouseEvent>d3.event;
+
+                    this.selectionManager
+                        .select(d.identity, event.ctrlKey || event.metaKey || event.shiftKey)
+                        .then(ids => this.syncSelectionState(ids));
+                });
+
+            tableRows.exit()
+                .remove();
+
+            tableRows
+                .order()
+                .style("outline-color", outlineColour);
+
+            let cells = tableRows
+                .selectAll("td")
+                .data(d => columns.map(c => c.text(d)));
+
+            cells.enter()
+                .append("td");
+
+            cells.exit()
+                .remove();
+
+            cells.text(text => text);
+
+            if (!rows.some(d => d.identity.getKey() === this.focusedKey)) {
+                this.focusedKey = rows.length > 0 ? rows[0].identity.getKey() : null;
+            }
+
+            // as with the bars, one row sits in the tab order and the arrow keys move between them
+            tableRows.attr("tabindex", d => d.identity.getKey() === this.focusedKey ? 0 : -1);
+
+            this.syncSelectionState(this.selectionManager.getSelectionIds());
+        }
+
+        private getTableColumns(): TableColumn[] {
+            let series = this.viewModel.series;
+            let percentFormatter = new ValueFormatter({
+                format: "0.00%",
+                locale: this.locale
+            });
+            let deviation = (d: DataPoint) => d.value != null ? d.value - series[d.series].reference : null;
+            let deviationPercent = (d: DataPoint) => d.value != null && series[d.series].reference !== 0
+                ? deviation(d) / Math.abs(series[d.series].reference)
+                : null;
+
+            let columns: TableColumn[] = [{
+                key: "category",
+                title: this.viewModel.categoryName,
+                text: d => this.viewModel.categoryLabels[d.category],
+                // the values rather than the labels, so numbers and dates don't sort as text
+                sortValue: d => this.viewModel.categoryValues[d.category]
+            }];
+
+            if (this.viewModel.smallMultiples) {
+                let panels = this.viewModel.panels.map(panel => panel.key);
+
+                columns.push({
+                    key: "panel",
+                    title: this.viewModel.panelName,
+                    text: d => this.viewModel.panels[panels.indexOf(d.panel)].name,
+                    sortValue: d => panels.indexOf(d.panel)
+                });
+            }
+
+            if (series.length > 1) {
+                columns.push({
+                    key: "series",
+                    title: this.resources.getLocalString("Series", this.locale),
+                    text: d => series[d.series].name,
+                    sortValue: d => series[d.series].name
+                });
+            }
+
+            columns.push({
+                key: "value",
+                title: this.resources.getLocalString("Value", this.locale),
+                text: d => series[d.series].formatter.format(d.value),
+                sortValue: d => d.value
+            });
+
+            if (this.settings.deviation.show) {
+                columns.push({
+                    key: "deviation",
+                    title: this.resources.getLocalString("DeviationAbsolute", this.locale),
+                    text: d => series[d.series].formatter.format(deviation(d)),
+                    sortValue: deviation
+                }, {
+                    key: "deviationPercent",
+                    title: this.resources.getLocalString("DeviationPercent", this.locale),
+                    text: d => percentFormatter.format(deviationPercent(d)),
+                    sortValue: deviationPercent
+                });
+            }
+
+            return columns;
+        }
+
+        // each click on a header sorts ascending, then descending, then back to the data order
+        private sortTable(key: string) {
+            let sort = this.tableSort;
+
+            this.tableSort = !sort || sort.key !== key
+                ? { key: key, descending: false }
+                : !sort.descending ? { key: key, descending: true } : null;
+
+            this.renderTable();
+        }
+
+        private onRowKeyDown(d: DataPoint) {
+            let event = <KeyboardEvent>d3.event;
+            let rows = <DataPoint[]>this.table.selectAll("tbody tr").data();
+            let index = rows.indexOf(d);
+            let next: number = null;
+
+            switch (event.key) {
+                case "ArrowDown":
+                case "Down":
+                    next = Math.min(rows.length - 1, index + 1);
+                    break;
+                case "ArrowUp":
+                case "Up":
+                    next = Math.max(0, index - 1);
+                    break;
+                case "Home":
+                    next = 0;
+                    break;
+                case "End":
+                    next = rows.length - 1;
+                    break;
+                case "Enter":
+                case " ":
+                case "Spacebar":
+                    this.selectionManager
+                        .select(d.identity, event.ctrlKey || event.metaKey || event.shiftKey)
+                        .then(ids => this.syncSelectionState(ids));
+                    break;
+                case "Escape":
+                case "Esc":
+                    this.selectionManager
+                        .clear()
+                        .then(() => this.syncSelectionState([]));
+                    break;
+                default:
+                    return;
+            }
+
+            event.preventDefault();
+
+            if (next !== null && next !== index) {
+                let target = rows[next];
+                let tableRows = this.table.selectAll("tbody tr");
+
+                this.focusedKey = target.identity.getKey();
+
+                tableRows.attr("tabindex", (row: DataPoint) => row === target ? 0 : -1);
+                tableRows.filter((row: DataPoint) => row === target)
+                    .each(function () {
+                        (<HTMLElement>this).focus();
+                    });
+            }
+        }
+
+        // draws one chart into the panel's element and returns the categories it shows and the room along them
+        private renderPanel(
+            element: d3.Selection<Panel>,
+            panel: Panel,
+            width: number,
+            height: number): { categories: string[], scrollRange: number[] } {
+
+            let layout = this.settings.layout.mode;
+            let duration = this.settings.animation.show ? this.settings.animation.duration : 0;
+            let multiples = this.viewModel.smallMultiples;
+
+            let horizontal = this.settings.layout.orientation === "horizontal";
+            let labelLayout = new AxisLabelLayout(text => this.measureText(text), this.getLineHeight());
+
+            let valueAxisSettings = horizontal ? this.settings.xAxis : this.settings.yAxis;
+            let logarithmic = this.canUseLogScale(valueAxisSettings);
+            let valueScale = this.getValueScale(valueAxisSettings, logarithmic,
+                multiples && !this.settings.smallMultiples.sharedAxis ? [panel.minValue, panel.maxValue] : [this.viewModel.minValue, this.viewModel.maxValue]);
+            let ticks = valueScale.ticks(10);
+
+            let valueFormatter = new ValueFormatter({
+                format: layout === "percentStacked" ? "0%" : this.viewModel.series.length > 0 ? this.viewModel.series[0].format : null,
+                displayUnits: valueAxisSettings.displayUnits,
+                maxValue: d3.max(valueScale.domain(), v => Math.abs(v)),
+                tickInterval: logarithmic ? ticks[0] : ticks.length > 1 ? ticks[1] - ticks[0] : null,
+                locale: this.locale
+            });
+
+            // a log axis has nine ticks per decade, only the 1, 2 and 5 ones get a label
+            let valueFormat = (tick: number) => !logarithmic || Visual.isLogLabelTick(tick) ? valueFormatter.format(tick) : "";
+            let xTitleSize = this.settings.xAxis.show && this.settings.xAxis.showTitle ? this.getLineHeight() : 0;
+            let yTitleSize = this.settings.yAxis.show && this.settings.yAxis.showTitle ? this.getLineHeight() : 0;
+
+            // the axes take the room their labels need, the padding settings only set a minimum
+            let valueAxisSize = horizontal
+                ? this.getLineHeight()
+                : d3.max(ticks, tick => this.measureText(valueFormat(tick))) || 0;
+
+            let xAxisPadding = 0;
+            let yAxisPadding = 0;
+
+            if (horizontal && this.settings.xAxis.show) {
+                xAxisPadding = Math.max(this.settings.xAxis.padding, valueAxisSize + this.axisLabelGap + xTitleSize);
+            }
+            else if (!horizontal && this.settings.yAxis.show) {
+                yAxisPadding = Math.max(this.settings.yAxis.padding, valueAxisSize + this.axisLabelGap + yTitleSize);
+            }
+
+            // every panel is the same size, so they all show the same window and their bars line up as it scrolls
+            let categories = this.getCategoryWindow(horizontal
+                ? height - xAxisPadding - this.settings.border.top
+                : width - yAxisPadding);
+            let scrolling = categories.length < this.viewModel.categories.length;
+
+            // the scrollbar runs alongside the category axis at the edge of the visual and takes its room from the plot
+            if (scrolling && horizontal) {
+                width -= this.scrollbarSize;
+            }
+            else if (scrolling) {
+                height -= this.scrollbarSize;
+            }
+
+            let visible: { [category: string]: boolean } = {};
+            categories.forEach(c => visible[c] = true);
+
+            let visibleDataPoints = panel.dataPoints.filter(d => visible[d.category]);
+            this.visibleDataPoints = this.visibleDataPoints.concat(visibleDataPoints);
+
+            // the category axis runs along x for columns and along y for horizontal bars
+            // the trend is projected onto extra bands after the last category, once the window shows it
+            let allCategories = this.viewModel.categories;
+            let bands = categories[categories.length - 1] === allCategories[allCategories.length - 1]
+                ? categories.concat(this.viewModel.projection)
+                : categories;
+
+            let categoryScale = d3.scale.ordinal()
+                .domain(bands)
+                .rangeRoundBands(horizontal
+                    ? [0 + this.settings.border.top, height - xAxisPadding]
+                    : [yAxisPadding, width], this.xPadding);
+
+            let bandLabels = bands.map(band => this.viewModel.categoryLabels[band]);
+            let categoryLabels = horizontal
+                ? labelLayout.forWidth(bandLabels, width * this.maxCategoryAxisShare)
+                : labelLayout.forBands(bandLabels, categoryScale.rangeBand(), height * this.maxCategoryAxisShare);
+
+            // a hidden category axis still leaves a band to drag the brush along
+            if (horizontal) {
+                yAxisPadding = this.settings.yAxis.show
+                    ? Math.max(this.settings.yAxis.padding, categoryLabels.size + this.axisLabelGap + yTitleSize)
+                    : this.brushSize;
+            }
+            else {
+                xAxisPadding = this.settings.xAxis.show
+                    ? Math.max(this.settings.xAxis.padding, categoryLabels.size + this.axisLabelGap + xTitleSize)
+                    : this.brushSize;
+            }
+
+            valueScale
+                .range(horizontal
+                    ? [yAxisPadding, width - this.settings.border.right]
+                    : [height - xAxisPadding, 0 + this.settings.border.top]);
+
+            // clustered bars share their category band, stacked ones fill all of it
+            let seriesScale = d3.scale.ordinal<number, number>()
+                .domain(layout === "clustered" ? this.viewModel.series.map((s, i) => i) : [0])
+                .rangeBands([0, categoryScale.rangeBand()], layout === "clustered" ? this.seriesPadding : 0);
+
+            let xAxisGroup = element.select(".x-axis");
+            let yAxisGroup = element.select(".y-axis");
+            let xAxisTitle = element.select(".x-axis-title");
+            let yAxisTitle = element.select(".y-axis-title");
+
+            let categoryAxis = d3.svg.axis()
+                .scale(categoryScale)
+                .orient(horizontal ? "left" : "bottom")
+                .tickSize(1);
+
+            let valueAxis = d3.svg.axis()
+                .scale(valueScale)
+                .orient(horizontal ? "bottom" : "left")
+                .tickFormat(valueFormat)
+                .tickSize(1);
+
+            yAxisGroup
+                .attr({
+                    transform: `translate(${yAxisPadding},0)`
+                })
+                .style({
+                    display: this.settings.yAxis.show ? null : "none",
+                    fill: this.settings.yAxis.color
+                })
+                .transition()
+                .duration(duration)
+                .call(horizontal ? categoryAxis : valueAxis);
+
+            yAxisGroup
+                .selectAll("text")
+                .style({
+                    "text-anchor": "end",
+                    "font-size": "x-small"
+                });
+
+            xAxisGroup
+                .attr({
+                    transform: `translate(0,${height - xAxisPadding})`
+                })
+                .style({
+                    display: this.settings.xAxis.show ? null : "none",
+                    fill: this.settings.xAxis.color
+                })
+                .transition()
+                .duration(duration)
+                .call(horizontal ? valueAxis : categoryAxis);
+
+            xAxisGroup
+                .selectAll("text")
+                .attr({
+                    transform: !horizontal && categoryLabels.mode === "rotated" ? `rotate(${AxisLabelLayout.rotation})` : null
+                })
+                .style({
+                    "text-anchor": !horizontal && categoryLabels.mode === "rotated" ? "end" : "middle",
+                    "font-size": "x-small"
+                });
+
+            this.applyLabelLayout(horizontal ? yAxisGroup : xAxisGroup, categoryLabels);
+
+            xAxisTitle
+                .attr({
+                    x: (yAxisPadding + width - (horizontal ? this.settings.border.right : 0)) / 2,
+                    y: height,
+                    dy: "-0.3em"
+                })
+                .style({
+                    display: xTitleSize > 0 ? null : "none",
+                    fill: this.settings.xAxis.color
+                })
+                .text(this.getAxisTitle(this.settings.xAxis, horizontal));
+
+            // rotated a quarter turn, so x runs up the left edge and y away from it
+            yAxisTitle
+                .attr({
+                    transform: "rotate(-90)",
+                    x: -(this.settings.border.top + height - xAxisPadding) / 2,
+                    y: 0,
+                    dy: "1em"
+                })
+                .style({
+                    display: yTitleSize > 0 ? null : "none",
+                    fill: this.settings.yAxis.color
+                })
+                .text(this.getAxisTitle(this.settings.yAxis, !horizontal));
+
+            this.renderGridlines(element.select(".grid-group"), categoryScale, valueScale, valueAxisSettings.gridlines ? ticks : [], duration);
+
+            let position = (d: DataPoint) => categoryScale(d.category) + seriesScale(layout === "clustered" ? d.series : 0);
+            let zero = valueScale(0);
+
+            // bars are keyed by identity so a filtered bar tweens to its new place instead of being reused
+            let bars = element.select(".bar-group")
+                .selectAll(".bar")
+                .data(visibleDataPoints, d => d.identity.getKey());
+
+            // entering bars start collapsed where they will grow from
+            bars.enter()
+                .append("rect")
+                .classed("bar", true)
+                .attr({
+                    role: "option"
+                })
+                .attr(horizontal ? {
+                    width: 0,
+                    height: seriesScale.rangeBand(),
+                    y: position,
+                    x: d => valueScale(d.start)
+                } : {
+                    width: seriesScale.rangeBand(),
+                    height: 0,
+                    y: d => valueScale(d.start),
+                    x: position
+                });
+
+            bars.order();
+
+            bars
+                .transition()
+                .duration(duration)
+                .attr(horizontal ? {
+                    width: d => Math.abs(valueScale(d.end) - valueScale(d.start)),
+                    height: seriesScale.rangeBand(),
+                    y: position,
+                    x: d => valueScale(Math.min(d.start, d.end))
+                } : {
+                    width: seriesScale.rangeBand(),
+                    height: d => Math.abs(valueScale(d.start) - valueScale(d.end)),
+                    y: d => valueScale(Math.max(d.start, d.end)),
+                    x: position
+                });
+
+            bars
+                .attr({
+                    "aria-label": d => d.tooltips.map(t => `${t.displayName}: ${t.value}`).join(", ")
+                })
+                .style({
+                    fill: d => d.colour
+                })
+                .on("keydown", d => this.onBarKeyDown(d))
+                .on("focus", d => {
+                    this.focusedKey = d.identity.getKey();
+                })
+                .on("click", d => {
+                    let event = <MouseEvent>d3.event;
+                    let multiSelect = event.ctrlKey || event.metaKey || event.shiftKey;
+
+                    // keep the click from reaching the background, which clears the selection
+                    event.stopPropagation();
+
+                    this.selectionManager
+                        .select(d.identity, multiSelect)
+                        .then(ids => this.syncSelectionState(ids));
+                })
+                .on("contextmenu", d => {
+                    (<Event>d3.event).stopPropagation();
+                    this.showContextMenu(d.identity);
+                })
+                .on("mouseover", d => {
+                    let mouse = d3.mouse(this.svg.node());
+                    let x = mouse[0];
+                    let y = mouse[1];
+
+                    this.host.tooltipService.show({
+                        dataItems: d.tooltips,
+                        identities: [d.identity],
+                        coordinates: [x, y],
+                        isTouchEvent: false
+                    });
+                })
+                .on("mousemove", d => {
+                    let mouse = d3.mouse(this.svg.node());
+                    let x = mouse[0];
+                    let y = mouse[1];
+
+                    this.host.tooltipService.move({
+                        dataItems: d.tooltips,
+                        identities: [d.identity],
+                        coordinates: [x, y],
+                        isTouchEvent: false
+                    });
+                })
+                .on("mouseout", d => {
+                    this.host.tooltipService.hide({
+                        immediately: true,
+                        isTouchEvent: false
+                    });
+                });
+
+            // exiting bars shrink onto the zero line before they go, no longer counted as bars
+            bars.exit()
+                .classed("bar", false)
+                .transition()
+                .duration(duration)
+                .attr(horizontal ? {
+                    width: 0,
+                    x: zero
+                } : {
+                    height: 0,
+                    y: zero
+                })
+                .remove();
+
+            this.renderReferenceLines(element.select(".reference-group"), panel, categoryScale, valueScale, duration);
+            this.renderOverlays(element.select(".overlay-group"), panel, categoryScale, valueScale, seriesScale, duration);
+            this.renderLabels(element.select(".label-group"), visibleDataPoints, categoryScale, valueScale, seriesScale, duration);
+            this.renderBrush(element.select(".brush"), visibleDataPoints, categoryScale, horizontal
+                ? [0, yAxisPadding]
+                : [height - xAxisPadding, xAxisPadding]);
+
+            // bars grow away from zero, which may sit anywhere inside the value range
+            element.select(".baseline")
+                .transition()
+                .duration(duration)
+                .attr(horizontal ? {
+                    x1: zero,
+                    x2: zero,
+                    y1: categoryScale.rangeExtent()[0],
+                    y2: categoryScale.rangeExtent()[1]
+                } : {
+                    x1: categoryScale.rangeExtent()[0],
+                    x2: categoryScale.rangeExtent()[1],
+                    y1: zero,
+                    y2: zero
+                })
+                .style({
+                    stroke: this.highContrast ? this.highContrast.foreground : "#777777",
+                    "stroke-width": 1
+                });
+
+            return {
+                categories: categories,
+                scrollRange: horizontal
+                    ? [this.settings.border.top, height - xAxisPadding]
+                    : [yAxisPadding, width]
+            };
+        }
+
+        // dragging along the category axis selects every bar of the categories it covers in one go,
+        // holding shift when the drag starts adds them to the current selection
+        private renderBrush(
+            brushGroup: d3.Selection<Panel>,
+            dataPoints: DataPoint[],
+            categoryScale: d3.scale.Ordinal<string, number>,
+            across: number[]) {
+
+            let horizontal = this.settings.layout.orientation === "horizontal";
+            let extent = categoryScale.rangeExtent();
+            let brush = d3.svg.brush<Panel>();
+            let baseSelection: ISelectionId[] = [];
+            let extend = false;
+
+            let getBrushedIds = (): ISelectionId[] => {
+                let range = <number[]>brush.extent();
+                let covered: { [category: string]: boolean } = {};
+
+                categoryScale.domain()
+                    .filter(c => categoryScale(c) < range[1] && categoryScale(c) + categoryScale.rangeBand() > range[0])
+                    .forEach(c => covered[c] = true);
+
+                return dataPoints
+                    .filter(d => covered[d.category])
+                    .map(d => d.identity);
+            };
+
+            // the union the drag would leave behind, shown on the bars before anything is selected
+            let getPreview = (ids: ISelectionId[]) => baseSelection.concat(ids.filter(id => !this.isIdIn(id, baseSelection)));
+
+            if (horizontal) {
+                brush.y(d3.scale.identity().domain(extent));
+            }
+            else {
+                brush.x(d3.scale.identity().domain(extent));
+            }
+
+            brush
+                .on("brushstart", () => {
+                    let sourceEvent = <MouseEvent>(<d3.BaseEvent>d3.event).sourceEvent;
+
+                    extend = !!sourceEvent && sourceEvent.shiftKey;
+                    baseSelection = extend ? this.selectionManager.getSelectionIds() : [];
+                })
+                .on("brush", () => this.syncSelectionState(getPreview(getBrushedIds())))
+                .on("brushend", () => {
+                    let ids = brush.empty() ? [] : getBrushedIds();
+
+                    // with shift only the bars not selected yet are passed, multiSelect would toggle the others off
+                    let added = extend ? ids.filter(id => !this.isIdIn(id, baseSelection)) : ids;
+
+                    this.brushDragged = !brush.empty();
+
+                    brush.clear();
+                    brushGroup.call(brush);
+
+                    if (added.length === 0) {
+                        this.syncSelectionState(this.selectionManager.getSelectionIds());
+                        return;
+                    }
+
+                    let selection = this.selectionManager.select(added, extend);
+
+                    // a refused selection takes the preview back to what the host has selected
+                    selection.then(
+                        selected => this.syncSelectionState(selected),
+                        () => this.syncSelectionState(this.selectionManager.getSelectionIds()));
+                });
+
+            brushGroup
+                .on("click", () => (<Event>d3.event).stopPropagation())
+                .call(brush);
+
+            brushGroup.selectAll("rect")
+                .attr(horizontal ? {
+                    x: across[0],
+                    width: across[1]
+                } : {
+                    y: across[0],
+                    height: across[1]
+                });
+
+            // high contrast outlines the range instead of shading it
+            brushGroup.select(".extent")
+                .style(this.highContrast ? {
+                    fill: this.highContrast.selected,
+                    "fill-opacity": 0,
+                    stroke: this.highContrast.selected,
+                    "stroke-width": 2
+                } : {
+                    fill: "#000000",
+                    "fill-opacity": 0.1,
+                    stroke: null,
+                    "stroke-width": null
+                });
+        }
+
+        private isIdIn(id: ISelectionId, ids: ISelectionId[]): boolean {
+            return (<powerbi.visuals.ISelectionId[]>ids).some(other => other.equals(<powerbi.visuals.ISelectionId>id));
+        }
+
+        // a log scale can't reach zero, so negative values or a start at zero leave the axis linear
+        private canUseLogScale(axis: AxisSettings): boolean {
+            return axis.scaleType === "log"
+                && this.viewModel.minValue >= 0
+                && this.viewModel.dataPoints.some(d => d.end > 0)
+                && (axis.start == null || axis.start > 0);
+        }
+
+        // start and end override the data range, [min, max] of the bars and lines the axis has to fit
+        private getValueScale(axis: AxisSettings, logarithmic: boolean, range: number[]): ValueScale {
+            let minValue = range[0];
+            let maxValue = range[1];
+
+            if (logarithmic) {
+                let minPositive = d3.min(this.viewModel.dataPoints, d => d.end > 0 ? d.end : undefined);
+                let logStart = axis.start != null ? axis.start : Math.pow(10, Math.floor(Math.log(minPositive) / Math.LN10 + 1e-9));
+                let logEnd = axis.end != null ? axis.end : maxValue;
+
+                // bars starting at zero are clamped onto the bottom of the axis
+                return d3.scale.log()
+                    .domain(logStart < logEnd ? [logStart, logEnd] : [logStart, logStart * 10])
+                    .clamp(true);
+            }
+
+            let start = axis.start != null ? axis.start : minValue;
+            let end = axis.end != null ? axis.end : maxValue;
+
+            return d3.scale.linear()
+                .domain(start < end ? [start, end] : [minValue, maxValue])
+                .clamp(true);
+        }
+
+        private static isLogLabelTick(tick: number): boolean {
+            let mantissa = tick / Math.pow(10, Math.floor(Math.log(tick) / Math.LN10 + 1e-9));
+
+            return [1, 2, 5].some(m => Math.abs(mantissa - m) < 1e-6);
+        }
+
+        private getAxisTitle(axis: AxisSettings, showsValues: boolean): string {
+            if (axis.titleText) {
+                return axis.titleText;
+            }
+
+            return showsValues
+                ? this.viewModel.series.map(s => s.name).join(", ")
+                : this.viewModel.categoryName;
+        }
+
+        private renderGridlines(
+            gridGroup: d3.Selection<Panel>,
+            categoryScale: d3.scale.Ordinal<string, number>,
+            valueScale: ValueScale,
+            ticks: number[],
+            duration: number) {
+
+            let horizontal = this.settings.layout.orientation === "horizontal";
+            let extent = categoryScale.rangeExtent();
+
+            let gridlines = gridGroup
+                .selectAll(".gridline")
+                .data(ticks);
+
+            gridlines.enter()
+                .append("line")
+                .classed("gridline", true);
+
+            gridlines
+                .transition()
+                .duration(duration)
+                .attr(horizontal ? {
+                    x1: tick => valueScale(tick),
+                    x2: tick => valueScale(tick),
+                    y1: extent[0],
+                    y2: extent[1]
+                } : {
+                    x1: extent[0],
+                    x2: extent[1],
+                    y1: tick => valueScale(tick),
+                    y2: tick => valueScale(tick)
+                })
+                .style({
+                    stroke: this.highContrast ? this.highContrast.foreground : "#EAEAEA",
+                    "stroke-width": 1,
+                    "stroke-dasharray": this.highContrast ? "1,3" : null
+                });
+
+            gridlines.exit()
+                .remove();
+        }
+
+        // right-click, the menu key and a touch long-press all raise contextmenu
+        private showContextMenu(identity: ISelectionId) {
+            let event = <MouseEvent>d3.event;
+            let selectionManager = <ContextMenuSelectionManager>this.selectionManager;
+
+            if (!selectionManager.showContextMenu) {
+                return;
+            }
+
+            event.preventDefault();
+
+            // the menu key gives no pointer position, so the menu opens at the focused element instead
+            let position = { x: event.clientX, y: event.clientY };
+
+            if (!position.x && !position.y && event.target instanceof Element) {
+                let bounds = (<Element>event.target).getBoundingClientRect();
+                position = { x: bounds.left + bounds.width / 2, y: bounds.top + bounds.height / 2 };
+            }
+
+            selectionManager.showContextMenu(identity || {}, position);
+        }
+
+        private applyLabelLayout(axisGroup: d3.Selection<Panel>, labelLayout: LabelLayout) {
+            let categoryLabels = this.viewModel.categoryLabels;
+
+            axisGroup
+                .selectAll(".tick text")
+                .each(function (category: string) {
+                    let text = d3.select(this);
+                    let label = categoryLabels[category];
+                    let lines = labelLayout.lines[label] || [label];
+                    let x = text.attr("x");
+
+                    text.text(null);
+
+                    lines.forEach((line, i) => text
+                        .append("tspan")
+                        .attr({
+                            x: x,
+                            dy: i > 0 ? "1.1em" : null
+                        })
+                        .text(line));
+
+                    // shortened labels keep their full text as a native tooltip
+                    if (lines.join(" ") !== label) {
+                        text.append("title").text(label);
+                    }
+                });
+        }
+
+        private measureText(text: string): number {
+            let node = <SVGTextElement>this.textMeasure.text(text).node();
+
+            return node.getComputedTextLength();
+        }
+
+        private getLineHeight(): number {
+            let node = <SVGTextElement>this.textMeasure.text("Mg").node();
+
+            return node.getBBox().height || this.defaultLineHeight;
+        }
+
+        private getCategoryWindow(length: number): string[] {
+            let clustered = this.settings.layout.mode === "clustered";
+            let minWidth = this.settings.scroll.minCategoryWidth * (clustered ? Math.max(1, this.viewModel.series.length) : 1);
+            let count = Math.max(1, Math.floor(length / minWidth));
+            let total = this.viewModel.categories.length;
+
+            this.scrollOffset = Math.max(0, Math.min(this.scrollOffset, total - count));
+            this.visibleCategoryCount = Math.min(count, total);
+
+            return this.viewModel.categories.slice(this.scrollOffset, this.scrollOffset + count);
+        }
+
+        private scrollTo(offset: number) {
+            if (!this.viewModel) {
+                return;
+            }
+
+            let clamped = Math.max(0, Math.min(offset, this.viewModel.categories.length - this.visibleCategoryCount));
+
+            if (clamped !== this.scrollOffset) {
+                this.scrollOffset = clamped;
+                this.render();
+            }
+        }
+
+        private renderScrollbar(show: boolean, visibleCount: number, range: number[]) {
+            let horizontal = this.settings.layout.orientation === "horizontal";
+            let total = this.viewModel.categories.length;
+            let length = range[1] - range[0];
+            let thumbLength = show ? Math.max(this.scrollbarSize, length * visibleCount / total) : 0;
+            let thumbStart = range[0] + (show ? (length - thumbLength) * this.scrollOffset / Math.max(1, total - visibleCount) : 0);
+
+            // dragging the thumb by one pixel moves the window by this many categories
+            this.scrollRatio = show ? Math.max(1, total - visibleCount) / Math.max(1, length - thumbLength) : 0;
+
+            this.scrollbar
+                .style("display", show ? null : "none")
+                .attr({
+                    transform: horizontal
+                        ? `translate(${this.viewport.width - this.scrollbarSize},0)`
+                        : `translate(0,${this.viewport.height - this.scrollbarSize})`
+                });
+
+            this.scrollbar.select(".scrollbar-track")
+                .style(this.highContrast ? {
+                    fill: this.highContrast.background,
+                    stroke: this.highContrast.foreground
+                } : {
+                    fill: null,
+                    stroke: null
+                })
+                .attr(horizontal ? {
+                    x: 0,
+                    y: range[0],
+                    width: this.scrollbarSize,
+                    height: length
+                } : {
+                    x: range[0],
+                    y: 0,
+                    width: length,
+                    height: this.scrollbarSize
+                });
+
+            this.scrollbar.select(".scrollbar-thumb")
+                .style({
+                    fill: this.highContrast ? this.highContrast.foreground : null
+                })
+                .attr(horizontal ? {
+                    x: 0,
+                    y: thumbStart,
+                    width: this.scrollbarSize,
+                    height: thumbLength
+                } : {
+                    x: thumbStart,
+                    y: 0,
+                    width: thumbLength,
+                    height: this.scrollbarSize
+                });
+        }
+
+        private onBarKeyDown(d: DataPoint) {
+            let event = <KeyboardEvent>d3.event;
+            let dataPoints = this.viewModel.dataPoints;
+            let index = dataPoints.indexOf(d);
+            let next: number = null;
+
+            // arrow keys walk over every bar, scrolling the category window along when needed
+            switch (event.key) {
+                case "ArrowRight":
+                case "ArrowDown":
+                case "Right":
+                case "Down":
+                    next = Math.min(dataPoints.length - 1, index + 1);
+                    break;
+                case "ArrowLeft":
+                case "ArrowUp":
+                case "Left":
+                case "Up":
+                    next = Math.max(0, index - 1);
+                    break;
+                case "Home":
+                    next = 0;
+                    break;
+                case "End":
+                    next = dataPoints.length - 1;
+                    break;
+                case "Enter":
+                case " ":
+                case "Spacebar":
+                    this.selectionManager
+                        .select(d.identity, event.ctrlKey || event.metaKey || event.shiftKey)
+                        .then(ids => this.syncSelectionState(ids));
+                    break;
+                case "Escape":
+                case "Esc":
+                    this.selectionManager
+                        .clear()
+                        .then(() => this.syncSelectionState([]));
+                    break;
+                default:
+                    return;
+            }
+
+            event.preventDefault();
+
+            if (next !== null && next !== index) {
+                this.focusDataPoint(dataPoints[next]);
+            }
+        }
+
+        private focusDataPoint(target: DataPoint) {
+            let categoryIndex = this.viewModel.categories.indexOf(target.category);
+
+            this.focusedKey = target.identity.getKey();
+
+            if (categoryIndex < this.scrollOffset) {
+                this.scrollTo(categoryIndex);
+            }
+            else if (categoryIndex >= this.scrollOffset + this.visibleCategoryCount) {
+                this.scrollTo(categoryIndex - this.visibleCategoryCount + 1);
+            }
+
+            let bars = this.svg.selectAll(".bar");
+
+            bars.attr("tabindex", (d: DataPoint) => d === target ? 0 : -1);
+            bars.filter((d: DataPoint) => d === target)
+                .each(function () {
+                    (<HTMLElement>this).focus();
+                });
+        }
+
+        private syncSelectionState(ids: ISelectionId[]) {
+            let selected = <powerbi.visuals.ISelectionId[]>ids;
+            let highlights = this.viewModel && this.viewModel.highlights;
+            let highContrast = this.highContrast;
+            let isSelected = (d: DataPoint) => selected.some(id => id.equals(d.identity));
+            let isEmphasised = (d: DataPoint) => selected.length > 0 ? isSelected(d) : highlights ? d.highlighted : true;
+
+            let bars = this.svg
+                .selectAll(".bar")
+                .attr({
+                    "aria-selected": isSelected
+                });
+
+            // opacity can't be told apart in high contrast, so faded bars become outlines instead
+            if (highContrast) {
+                bars
+                    .attr({
+                        stroke: highContrast.foreground,
+                        "stroke-width": 1
+                    })
+                    .style({
+                        fill: (d: DataPoint) => isSelected(d) ? highContrast.selected : isEmphasised(d) ? d.colour : highContrast.background,
+                        "fill-opacity": 1.0
+                    });
+            }
+            else {
+                bars
+                    .attr({
+                        stroke: null,
+                        "stroke-width": null
+                    })
+                    .style({
+                        fill: (d: DataPoint) => d.colour,
+                        "fill-opacity": (d: DataPoint) => isEmphasised(d) ? 1.0 : 0.5
+                    });
+            }
+
+            this.table
+                .selectAll("tbody tr")
+                .attr({
+                    "aria-selected": isSelected
+                })
+                .classed("selected", isSelected)
+                .style(highContrast ? {
+                    color: (d: DataPoint) => isSelected(d) ? highContrast.background : highContrast.foreground,
+                    background: (d: DataPoint) => isSelected(d) ? highContrast.selected : highContrast.background
+                } : {
+                    color: null,
+                    background: null
+                });
+        }
+
+        private renderSeriesPatterns() {
+            let highContrast = this.highContrast;
+            let count = highContrast ? Math.max(0, this.viewModel.series.length - 1) : 0;
+            let size = (k: number) => 4 + 2 * Math.floor((k - 1) / Visual.hatchAngles.length);
+
+            let patterns = this.patterns
+                .selectAll("pattern")
+                .data(d3.range(1, count + 1));
+
+            let entered = patterns.enter()
+                .append("pattern")
+                .attr({
+                    patternUnits: "userSpaceOnUse"
+                });
+
+            entered.append("rect");
+            entered.append("line");
+
+            patterns.exit()
+                .remove();
+
+            patterns
+                .attr({
+                    id: k => this.patternPrefix + k,
+                    width: size,
+                    height: size,
+                    patternTransform: k => `rotate(${Visual.hatchAngles[(k - 1) % Visual.hatchAngles.length]})`
+                });
+
+            patterns.select("rect")
+                .attr({
+                    width: size,
+                    height: size,
+                    fill: highContrast && highContrast.background
+                });
+
+            patterns.select("line")
+                .attr({
+                    x1: k => size(k) / 2,
+                    y1: 0,
+                    x2: k => size(k) / 2,
+                    y2: size,
+                    stroke: highContrast && highContrast.foreground,
+                    "stroke-width": 2
+                });
+        }
+
+        private renderReferenceLines(
+            referenceGroup: d3.Selection<Panel>,
+            panel: Panel,
+            categoryScale: d3.scale.Ordinal<string, number>,
+            valueScale: ValueScale,
+            duration: number) {
+
+            let horizontal = this.settings.layout.orientation === "horizontal";
+            let categoryRange = categoryScale.rangeExtent();
+            let dashes = {
+                solid: null,
+                dashed: "5,5",
+                dotted: "1,3"
+            };
+            let formatter = new ValueFormatter({
+                format: this.viewModel.series.length > 0 ? this.viewModel.series[0].format : undefined,
+                displayUnits: 0,
+                maxValue: Math.max(Math.abs(this.viewModel.minValue), Math.abs(this.viewModel.maxValue)),
+                locale: this.locale
+            });
+
+            let lines = referenceGroup
+                .selectAll(".reference-line")
+                .data(panel.referenceLines, d => d.type);
+
+            lines.enter()
+                .append("line")
+                .classed("reference-line", true);
+
+            lines
+                .transition()
+                .duration(duration)
+                .attr(horizontal ? {
+                    x1: d => valueScale(d.value),
+                    x2: d => valueScale(d.value),
+                    y1: categoryRange[0],
+                    y2: categoryRange[1]
+                } : {
+                    x1: categoryRange[0],
+                    x2: categoryRange[1],
+                    y1: d => valueScale(d.value),
+                    y2: d => valueScale(d.value)
+                })
+                .style({
+                    stroke: d => this.getReferenceLineSettings(d.type).color,
+                    "stroke-width": 1.5,
+                    "stroke-dasharray": d => dashes[this.getReferenceLineSettings(d.type).style]
+                });
+
+            lines.exit()
+                .remove();
+
+            let labels = referenceGroup
+                .selectAll(".reference-label")
+                .data(panel.referenceLines.filter(d => this.getReferenceLineSettings(d.type).showLabel), d => d.type);
+
+            labels.enter()
+                .append("text")
+                .classed("reference-label", true);
+
+            // labels are tucked against the far end of their line
+            labels
+                .text(d => `${d.label}: ${formatter.format(d.value)}`)
+                .transition()
+                .duration(duration)
+                .attr(horizontal ? {
+                    x: d => valueScale(d.value) + 3,
+                    y: categoryRange[0],
+                    dy: "0.8em",
+                    "text-anchor": "start"
+                } : {
+                    x: categoryRange[1],
+                    y: d => valueScale(d.value) - 3,
+                    dy: 0,
+                    "text-anchor": "end"
+                })
+                .style({
+                    fill: d => this.getReferenceLineSettings(d.type).color,
+                    "font-size": "x-small",
+                    "pointer-events": "none"
+                });
+
+            labels.exit()
+                .remove();
+        }
+
+        private renderOverlays(
+            overlayGroup: d3.Selection<Panel>,
+            panel: Panel,
+            categoryScale: d3.scale.Ordinal<string, number>,
+            valueScale: ValueScale,
+            seriesScale: d3.scale.Ordinal<number, number>,
+            duration: number) {
+
+            let horizontal = this.settings.layout.orientation === "horizontal";
+            let clustered = this.settings.layout.mode === "clustered";
+            let dashes = {
+                solid: null,
+                dashed: "5,5",
+                dotted: "1,3"
+            };
+            let shown: { [category: string]: boolean } = {};
+            categoryScale.domain().forEach(c => shown[c] = true);
+
+            // points sit in the middle of their bar, or of the whole band for stack totals
+            let position = (p: OverlayPoint, overlay: Overlay) => categoryScale(p.category) + (clustered && overlay.series != null
+                ? seriesScale(overlay.series) + seriesScale.rangeBand() / 2
+                : categoryScale.rangeBand() / 2);
+
+            let getSettings = (overlay: Overlay) => overlay.type === "movingAverage" ? this.settings.movingAverage : this.settings.trendLine;
+
+            let paths = overlayGroup
+                .selectAll(".overlay")
+                .data(panel.overlays, d => `${d.type}-${d.series}`);
+
+            paths.enter()
+                .append("path")
+                .classed("overlay", true);
+
+            paths
+                .style({
+                    fill: "none",
+                    stroke: d => getSettings(d).color,
+                    "stroke-width": 2,
+                    // the projection is drawn fainter and dotted, it's a guess rather than a fit
+                    "stroke-dasharray": d => d.type === "projection" ? dashes.dotted : dashes[getSettings(d).style],
+                    "stroke-opacity": d => d.type === "projection" && !this.highContrast ? 0.6 : 1,
+                    "pointer-events": "stroke"
+                })
+                .on("mouseover", d => {
+                    let mouse = d3.mouse(this.svg.node());
+
+                    this.host.tooltipService.show({
+                        dataItems: this.getOverlayTooltips(d),
+                        identities: [],
+                        coordinates: [mouse[0], mouse[1]],
+                        isTouchEvent: false
+                    });
+                })
+                .on("mousemove", d => {
+                    let mouse = d3.mouse(this.svg.node());
+
+                    this.host.tooltipService.move({
+                        dataItems: this.getOverlayTooltips(d),
+                        identities: [],
+                        coordinates: [mouse[0], mouse[1]],
+                        isTouchEvent: false
+                    });
+                })
+                .on("mouseout", () => {
+                    this.host.tooltipService.hide({
+                        immediately: true,
+                        isTouchEvent: false
+                    });
+                })
+                .transition()
+                .duration(duration)
+                .attr("d", d => d3.svg.line<OverlayPoint>()
+                    .x(p => horizontal ? valueScale(p.value) : position(p, d))
+                    .y(p => horizontal ? position(p, d) : valueScale(p.value))(d.points.filter(p => shown[p.category])) || "");
+
+            paths.exit()
+                .remove();
+        }
+
+        private getOverlayTooltips(overlay: Overlay): VisualTooltipDataItem[] {
+            let items: VisualTooltipDataItem[] = [{
+                displayName: overlay.label,
+                value: overlay.series != null ? this.viewModel.series[overlay.series].name : ""
+            }];
+
+            if (overlay.rSquared != null) {
+                items.push({
+                    displayName: this.resources.getLocalString("RSquared", this.locale),
+                    value: new ValueFormatter({ format: "0.00", locale: this.locale }).format(overlay.rSquared)
+                });
+            }
+
+            return items;
+        }
+
+        private renderLabels(
+            labelGroup: d3.Selection<Panel>,
+            dataPoints: DataPoint[],
+            categoryScale: d3.scale.Ordinal<string, number>,
+            valueScale: ValueScale,
+            seriesScale: d3.scale.Ordinal<number, number>,
+            duration: number) {
+
+            let settings = this.settings.labels;
+            let horizontal = this.settings.layout.orientation === "horizontal";
+            let clustered = this.settings.layout.mode === "clustered";
+            let outside = settings.position === "outsideEnd";
+            let gap = 3;
+
+            let formatters = this.viewModel.series.map(series => new ValueFormatter({
+                format: series.format,
+                displayUnits: settings.displayUnits,
+                precision: settings.precision,
+                maxValue: d3.max(this.viewModel.dataPoints, d => Math.abs(d.value)),
+                locale: this.locale
+            }));
+
+            let labels = labelGroup
+                .selectAll(".label")
+                .data(settings.show ? dataPoints : []);
+
+            labels.enter()
+                .append("text")
+                .classed("label", true);
+
+            // labels sit just past the end of the bar, or just before it when placed inside
+            labels
+                .text(d => formatters[d.series].format(d.value))
+                .attr(horizontal ? {
+                    x: d => valueScale(d.end) + (d.end < d.start ? -1 : 1) * (outside ? gap : -gap),
+                    y: d => categoryScale(d.category) + seriesScale(clustered ? d.series : 0) + seriesScale.rangeBand() / 2,
+                    dy: "0.35em",
+                    "text-anchor": d => (d.end < d.start) === outside ? "end" : "start"
+                } : {
+                    x: d => categoryScale(d.category) + seriesScale(clustered ? d.series : 0) + seriesScale.rangeBand() / 2,
+                    y: d => valueScale(d.end) + (d.end < d.start ? -1 : 1) * (outside ? -gap : gap),
+                    dy: d => (d.end < d.start) === outside ? "0.8em" : "0",
+                    "text-anchor": "middle"
+                })
+                .style({
+                    fill: settings.color,
+                    "font-size": `${settings.fontSize}pt`,
+                    "pointer-events": "none",
+                    display: null
+                });
+
+            labels.exit()
+                .remove();
+
+            this.hideOverlappingLabels(labels, categoryScale, valueScale, seriesScale, outside);
+
+            // labels are placed at once, so they fade in once the bars have reached them
+            labels
+                .style("opacity", duration > 0 ? 0 : 1)
+                .transition()
+                .delay(duration)
+                .duration(duration / 2)
+                .style("opacity", 1);
+        }
+
+        private hideOverlappingLabels(
+            labels: d3.selection.Update<DataPoint>,
+            categoryScale: d3.scale.Ordinal<string, number>,
+            valueScale: ValueScale,
+            seriesScale: d3.scale.Ordinal<number, number>,
+            outside: boolean) {
+
+            let horizontal = this.settings.layout.orientation === "horizontal";
+            let valueRange = d3.extent(valueScale.range());
+            let placed: SVGRect[] = [];
+
+            labels.each(function (d: DataPoint) {
+                let box = (<SVGTextElement>this).getBBox();
+                let barLength = Math.abs(valueScale(d.end) - valueScale(d.start));
+                let labelLength = horizontal ? box.width : box.height;
+                let labelThickness = horizontal ? box.height : box.width;
+                let boxStart = horizontal ? box.x : box.y;
+                let boxEnd = boxStart + labelLength;
+
+                let overflows = labelThickness > seriesScale.rangeBand()
+                    || (!outside && labelLength > barLength)
+                    || (outside && (boxStart < valueRange[0] || boxEnd > valueRange[1]));
+
+                let collides = placed.some(other =>
+                    box.x < other.x + other.width
+                    && other.x < box.x + box.width
+                    && box.y < other.y + other.height
+                    && other.y < box.y + box.height);
+
+                if (overflows || collides) {
+                    d3.select(this).style("display", "none");
+                }
+                else {
+                    placed.push(box);
+                }
+            });
+        }
+
+        private getReferenceValue(type: string, values: number[]): number {
+            let sorted = values.filter(v => v != null && !isNaN(v)).sort(d3.ascending);
+
+            switch (type) {
+                case "average":
+                    return d3.mean(sorted);
+                case "median":
+                    return d3.median(sorted);
+                case "min":
+                    return d3.min(sorted);
+                case "max":
+                    return d3.max(sorted);
+                case "percentile":
+                    return sorted.length > 0 ? d3.quantile(sorted, this.settings.percentileLine.percentile / 100) : undefined;
+                case "constant":
+                    return this.settings.constantLine.value;
+            }
+        }
+
+        private getGradientScale(extent: number[]): d3.scale.Linear<string, string> {
+            let settings = this.settings.colorGradient;
+
+            if (!settings.show || extent[0] == null) {
+                return null;
+            }
+
+            let min = settings.minValue != null ? settings.minValue : extent[0];
+            let max = settings.maxValue != null ? settings.maxValue : extent[1];
+
+            if (settings.diverging) {
+                let mid = settings.midValue != null ? settings.midValue : (min + max) / 2;
+
+                return d3.scale.linear<string, string>()
+                    .domain([min, mid, max])
+                    .range([settings.minColor, settings.midColor, settings.maxColor])
+                    .clamp(true);
+            }
+
+            return d3.scale.linear<string, string>()
+                .domain([min, max])
+                .range([settings.minColor, settings.maxColor])
+                .clamp(true);
+        }
+
+        // value-driven colours beat the one assigned to the bar's category or measure:
+        // the first matching rule wins, then the gradient, then the negative values colour
+        private getValueColour(value: number, gradient: d3.scale.Linear<string, string>): string {
+            let rules = this.settings.colorRules;
+
+            if (value == null) {
+                return null;
+            }
+
+            if (rules.show) {
+                let colorRules: ColorRule[] = [
+                    { operator: rules.rule1Operator, limit: rules.rule1Value, color: rules.rule1Color },
+                    { operator: rules.rule2Operator, limit: rules.rule2Value, color: rules.rule2Color },
+                    { operator: rules.rule3Operator, limit: rules.rule3Value, color: rules.rule3Color }
+                ];
+
+                for (let rule of colorRules) {
+                    // an operator this version doesn't know leaves the rule out rather than failing the update
+                    let matches = Visual.ruleOperators[rule.operator];
+
+                    if (matches && rule.limit != null && matches(value, rule.limit)) {
+                        return rule.color;
+                    }
+                }
+            }
+
+            if (gradient) {
+                return gradient(value);
+            }
+
+            if (this.settings.negativeBars.show && value < 0) {
+                return this.settings.negativeBars.fill;
+            }
+
+            return null;
+        }
+
+        private getCategoryOrder(levels: DataViewCategoryColumn[], values: DataViewValueColumn[]): number[] {
+            let indices = d3.range(Math.max(levels[0].values.length, values[0].values.length));
+            let sort = this.settings.sort.order;
+
+            if (sort === "data") {
+                return indices;
+            }
+
+            let descending = /Descending$/.test(sort);
+            let byValue = /^value/.test(sort);
+            let totals = indices.map(i => d3.sum(values, column => <number>column.values[i]));
+
+            // ties keep the data order so bars don't swap places between updates,
+            // and expanded levels sort from the top of the hierarchy down
+            return indices.sort((a, b) => {
+                let comparison = byValue
+                    ? d3.ascending(totals[a], totals[b])
+                    : levels.reduce((result, level) => result || Visual.compareValues(level.values[a], level.values[b]), 0);
+
+                return (descending ? -comparison : comparison) || a - b;
+            });
+        }
+
+        private static compareSortValues(a: PrimitiveValue | PrimitiveValue[], b: PrimitiveValue | PrimitiveValue[]): number {
+            if (a instanceof Array && b instanceof Array) {
+                return a.reduce<number>((result, value, i) => result || Visual.compareValues(value, b[i]), 0);
+            }
+
+            return Visual.compareValues(<PrimitiveValue>a, <PrimitiveValue>b);
+        }
+
+        // blanks come first, numbers and dates compare by value, anything else by its text
+        private static compareValues(a: PrimitiveValue, b: PrimitiveValue): number {
+            if (a == null || b == null) {
+                return a == null ? b == null ? 0 : -1 : 1;
+            }
+
+            if (typeof a === "number" && typeof b === "number") {
+                return d3.ascending(a, b);
+            }
+
+            if (a instanceof Date && b instanceof Date) {
+                return d3.ascending(a.getTime(), b.getTime());
+            }
+
+            return d3.ascending(String(a), String(b));
+        }
+
+        // overlays follow each measure when clustered and the stack totals otherwise,
+        // with a category's place on the whole axis as x so gaps in a panel keep their width
+        private getOverlays(panel: Panel, viewModel: ViewModel, categoryIndex: { [category: string]: number }): Overlay[] {
+            let layout = this.settings.layout.mode;
+            let trend = this.settings.trendLine;
+            let movingAverage = this.settings.movingAverage;
+            let overlays: Overlay[] = [];
+
+            if (layout === "percentStacked" || (!trend.show && !movingAverage.show)) {
+                return overlays;
+            }
+
+            let totals = layout === "clustered" ? null : Visual.getStackTotals(panel);
+            let groups = layout === "clustered"
+                ? viewModel.series.map((s, j) => ({
+                    series: j,
+                    points: panel.dataPoints
+                        .filter(d => d.series === j)
+                        .map(d => <OverlayPoint>{ category: d.category, value: d.value })
+                }))
+                : [{
+                    series: <number>null,
+                    points: panel.categories.map(c => <OverlayPoint>{
+                        category: c,
+                        value: totals[c] || 0
+                    })
+                }];
+
+            let x = (category: string) => categoryIndex[category];
+
+            for (let group of groups) {
+                let points = group.points.filter(p => p.value != null);
+                let regression = trend.show ? Trends.linearRegression(points.map(p => [x(p.category), p.value])) : null;
+
+                if (regression) {
+                    let fitted = points.map(p => <OverlayPoint>{
+                        category: p.category,
+                        value: regression.intercept + regression.slope * x(p.category)
+                    });
+
+                    overlays.push({
+                        type: "trend",
+                        series: group.series,
+                        label: this.resources.getLocalString("TrendLine", this.locale),
+                        points: fitted,
+                        rSquared: regression.rSquared
+                    });
+
+                    if (viewModel.projection.length > 0) {
+                        overlays.push({
+                            type: "projection",
+                            series: group.series,
+                            label: this.resources.getLocalString("Projection", this.locale),
+                            points: [fitted[fitted.length - 1]].concat(viewModel.projection.map((category, k) => <OverlayPoint>{
+                                category: category,
+                                value: regression.intercept + regression.slope * (viewModel.categories.length + k)
+                            })),
+                            rSquared: regression.rSquared
+                        });
+                    }
+                }
+
+                if (movingAverage.show) {
+                    let averages = Trends.movingAverage(points.map(p => p.value), movingAverage.period);
+
+                    overlays.push({
+                        type: "movingAverage",
+                        series: group.series,
+                        label: this.resources.getLocalString("MovingAverage", this.locale, movingAverage.period),
+                        points: points
+                            .map((p, i) => <OverlayPoint>{ category: p.category, value: averages[i] })
+                            .filter(p => p.value != null),
+                        rSquared: null
+                    });
+                }
+            }
+
+            return overlays;
+        }
+
+        // the sum of each category's bars in the panel, added up in one pass over them
+        private static getStackTotals(panel: Panel): { [category: string]: number } {
+            let totals: { [category: string]: number } = {};
+
+            for (let d of panel.dataPoints) {
+                totals[d.category] = (totals[d.category] || 0) + (d.value || 0);
+            }
+
+            return totals;
+        }
+
+        private getReferenceLineSettings(type: string): ReferenceLineSettings {
+            switch (type) {
+                case "average":
+                    return this.settings.averageLine;
+                case "median":
+                    return this.settings.medianLine;
+                case "min":
+                    return this.settings.minLine;
+                case "max":
+                    return this.settings.maxLine;
+                case "percentile":
+                    return this.settings.percentileLine;
+                case "constant":
+                    return this.settings.constantLine;
+                default:
+                    return null;
+            }
+        }
+
+        private getReferenceLabel(type: string): string {
+            let custom = this.getReferenceLineSettings(type).label;
+
+            if (custom) {
+                return custom;
+            }
+
+            // only the percentile label has a {0}, the others ignore the extra argument
+            return this.resources.getLocalString(type, this.locale, this.settings.percentileLine.percentile);
+        }
+
+        // blanks read "(Blank)" as they do in the core visuals, anything else by its text
+        private getValueLabel(value: PrimitiveValue): string {
+            return value == null ? this.resources.getLocalString("Blank", this.locale) : String(value);
+        }
+
+        private getViewModel(options: VisualUpdateOptions): ViewModel {
+
+            let dv = options && options.dataViews;
+
+            let viewModel: ViewModel = {
+                categories: [],
+                categoryName: "",
+                series: [],
+                dataPoints: [],
+                panels: [],
+                categoryColours: [],
+                smallMultiples: false,
+                panelName: "",
+                projection: [],
+                categoryLabels: {},
+                categoryValues: {},
+                minValue: 0,
+                maxValue: 0,
+                highlights: false
+            };
+
+            if (!dv
+                || !dv[0]
+                || !dv[0].categorical
+                || !dv[0].categorical.categories
+                || !dv[0].categorical.values)
+                return viewModel;
+
+            let view = dv[0].categorical;
+            // drilling shows one level of the hierarchy, expanding adds a column for each level above it
+            let levels = view.categories.filter(column => column.source.roles["category"]);
+            let categories = levels[levels.length - 1];
+            // with small multiples every row is one category within one panel
+            let panelColumn = view.categories.filter(column => column.source.roles["smallMultiples"])[0];
+            // extra tooltip measures arrive among the values, only the measure role draws bars
+            let values = view.values.filter(column => column.source.roles["measure"]);
+            let tooltipColumns = view.values.filter(column => column.source.roles["tooltips"]);
+            let layout = this.settings.layout.mode;
+            let multiSeries = values.length > 1;
+
+            if (!categories || values.length === 0) {
+                return viewModel;
+            }
+
+            let objects = categories.objects;
+            let categoryColumnName = levels.map(level => level.source.displayName).join(" ");
+            let panels: { [name: string]: Panel } = {};
+            // each category's place on the axis, looked up for every row instead of searching the list
+            let categoryIndex: { [category: string]: number } = {};
+
+            viewModel.categoryName = categoryColumnName;
+            viewModel.smallMultiples = !!panelColumn;
+            viewModel.panelName = panelColumn ? panelColumn.source.displayName : "";
+
+            // with several measures each one gets its own colour, otherwise colours follow the categories
+            viewModel.series = values.map(column => <Series>{
+                name: column.source.displayName,
+                queryName: column.source.queryName,
+                format: column.source.format,
+                colour: column.source.objects && DataViewObjects.getFillColor(column.source.objects, {
+                    objectName: "dataColors",
+                    propertyName: "fill"
+                }, null) || this.host.colorPalette.getColor(column.source.queryName).value,
+                formatter: new ValueFormatter({
+                    format: column.source.format,
+                    displayUnits: 1,
+                    locale: this.locale
+                }),
+                reference: this.getReferenceValue(this.settings.deviation.baseline, column.values.map(v => <number>v)) || 0
+            });
+
+            let percentFormatter = new ValueFormatter({
+                format: "0.00%",
+                locale: this.locale
+            });
+
+            let tooltipFormatters = tooltipColumns.map(column => new ValueFormatter({
+                format: column.source.format,
+                displayUnits: 1,
+                locale: this.locale
+            }));
+
+            // deviations are measured against the chosen baseline of the bar's own measure
+            let baselineLabel = this.getReferenceLabel(this.settings.deviation.baseline);
+
+            let order = this.getCategoryOrder(levels, values);
+
+            for (let i of order) {
+                // the identity of every level keeps the same quarter under different years apart,
+                // the label shows the drill path
+                let categoryIdentityBuilder = this.host.createSelectionIdBuilder();
+
+                for (let level of levels) {
+                    categoryIdentityBuilder = categoryIdentityBuilder.withCategory(level, i);
+                }
+
+                let categoryIdentity = categoryIdentityBuilder.createSelectionId();
+                let category = categoryIdentity.getKey();
+                let panelKey = panelColumn
+                    ? this.host.createSelectionIdBuilder().withCategory(panelColumn, i).createSelectionId().getKey()
+                    : "";
+                let total = d3.sum(values, column => Math.abs(<number>column.values[i]));
+                let positiveOffset = 0;
+                let negativeOffset = 0;
+
+                if (categoryIndex[category] == null) {
+                    categoryIndex[category] = viewModel.categories.push(category) - 1;
+                    viewModel.categoryLabels[category] = levels.map(level => this.getValueLabel(level.values[i])).join(" ");
+                    viewModel.categoryValues[category] = levels.map(level => level.values[i]);
+
+                    // the format pane lists each category once, its selector leaves out the panel
+                    if (!multiSeries) {
+                        viewModel.categoryColours.push({
+                            category: category,
+                            colour: objects && objects[i] && DataViewObjects.getFillColor(objects[i], {
+                                objectName: "dataColors",
+                                propertyName: "fill"
+                            }, null) || this.host.colorPalette.getColor(category).value,
+                            identity: categoryIdentity
+                        });
+                    }
+                }
+
+                if (!panels[panelKey]) {
+                    panels[panelKey] = {
+                        key: panelKey,
+                        name: panelColumn ? this.getValueLabel(panelColumn.values[i]) : null,
+                        categories: [],
+                        dataPoints: [],
+                        minValue: 0,
+                        maxValue: 0,
+                        referenceLines: [],
+                        overlays: []
+                    };
+                    viewModel.panels.push(panels[panelKey]);
+                }
+
+                let panel = panels[panelKey];
+
+                panel.categories.push(category);
+
+                for (let j = 0; j < values.length; j++) {
+                    let column = values[j];
+                    let series = viewModel.series[j];
+                    let value = <number>column.values[i];
+                    let size = layout === "percentStacked" ? (total !== 0 ? value / total : 0) : value;
+                    let start = layout === "clustered" ? 0 : size < 0 ? negativeOffset : positiveOffset;
+                    let highlights = column.highlights;
+
+                    // negative values stack downwards from zero, positive ones upwards
+                    if (size < 0) {
+                        negativeOffset += size;
+                    }
+                    else {
+                        positiveOffset += size;
+                    }
+
+                    let identityBuilder = this.host.createSelectionIdBuilder();
+
+                    for (let level of levels) {
+                        identityBuilder = identityBuilder.withCategory(level, i);
+                    }
+
+                    if (panelColumn) {
+                        identityBuilder = identityBuilder.withCategory(panelColumn, i);
+                    }
+
+                    if (multiSeries) {
+                        identityBuilder = identityBuilder.withMeasure(series.queryName);
+                    }
+
+                    let tooltips: VisualTooltipDataItem[] = levels.map(level => <VisualTooltipDataItem>{
+                        displayName: level.source.displayName,
+                        value: this.getValueLabel(level.values[i])
+                    });
+
+                    if (panelColumn) {
+                        tooltips.push({
+                            displayName: panelColumn.source.displayName,
+                            value: panel.name
+                        });
+                    }
+
+                    // a blank bar reads "(Blank)" and has no share or deviation, as in the table
+                    tooltips.push(
+                        {
+                            displayName: series.name,
+                            value: value == null ? this.getValueLabel(value) : series.formatter.format(value)
+                        });
+
+                    if (layout === "percentStacked" && value != null) {
+                        tooltips.push({
+                            displayName: this.resources.getLocalString("PercentOfTotal", this.locale),
+                            value: percentFormatter.format(size)
+                        });
+                    }
+
+                    if (this.settings.deviation.show && value != null) {
+                        tooltips.push({
+                            displayName: baselineLabel,
+                            value: series.formatter.format(series.reference)
+                        });
+                        tooltips.push({
+                            displayName: this.resources.getLocalString("DeviationAbsolute", this.locale),
+                            value: series.formatter.format(value - series.reference)
+                        });
+
+                        if (series.reference !== 0) {
+                            tooltips.push({
+                                displayName: this.resources.getLocalString("DeviationPercent", this.locale),
+                                value: percentFormatter.format((value - series.reference) / Math.abs(series.reference))
+                            });
+                        }
+                    }
+
+                    tooltipColumns.forEach((tooltipColumn, k) => {
+                        if (tooltipColumn.values[i] != null) {
+                            tooltips.push({
+                                displayName: tooltipColumn.source.displayName,
+                                value: tooltipFormatters[k].format(<number>tooltipColumn.values[i])
+                            });
+                        }
+                    });
+
+                    let colour = multiSeries
+                        ? series.colour
+                        : viewModel.categoryColours[categoryIndex[category]].colour;
+
+                    panel.dataPoints.push({
+                        category: category,
+                        panel: panel.key,
+                        series: j,
+                        value: value,
+                        start: start,
+                        end: start + size,
+                        colour: colour,
+                        assignedColour: colour,
+                        identity: identityBuilder.createSelectionId(),
+                        highlighted: highlights ? highlights[i] ? true : false : false,
+                        tooltips: tooltips
+                    });
+                }
+            }
+
+            if (this.settings.trendLine.show && layout !== "percentStacked") {
+                viewModel.projection = d3.range(1, this.settings.trendLine.forecast + 1).map(k => Visual.projectionKeyPrefix + k);
+                viewModel.projection.forEach((key, k) => viewModel.categoryLabels[key] = `+${k + 1}`);
+            }
+
+            for (let panel of viewModel.panels) {
+                // reference lines describe the panel's bars: single values when clustered, stack totals otherwise
+                if (layout !== "percentStacked") {
+                    let totals = layout === "clustered" ? null : Visual.getStackTotals(panel);
+                    let barValues = layout === "clustered"
+                        ? panel.dataPoints.map(d => d.value)
+                        : panel.categories.map(c => totals[c] || 0);
+
+                    for (let type of Visual.referenceLineTypes) {
+                        let value = this.getReferenceValue(type, barValues);
+
+                        if (this.getReferenceLineSettings(type).show && value != null && !isNaN(value)) {
+                            panel.referenceLines.push({
+                                type: type,
+                                value: value,
+                                label: this.getReferenceLabel(type)
+                            });
+                        }
+                    }
+                }
+
+                panel.overlays = this.getOverlays(panel, viewModel, categoryIndex);
+
+                let extent = panel.dataPoints
+                    .map(d => Math.min(d.start, d.end))
+                    .concat(panel.dataPoints.map(d => Math.max(d.start, d.end)))
+                    .concat(panel.referenceLines.map(l => l.value))
+                    .concat(d3.merge(panel.overlays.map(o => o.points.map(p => p.value))));
+
+                panel.minValue = Math.min(0, d3.min(extent) || 0);
+                panel.maxValue = Math.max(0, d3.max(extent) || 0);
+            }
+
+            // panel by panel, so the arrow keys finish one panel before moving to the next
+            viewModel.dataPoints = d3.merge(viewModel.panels.map(panel => panel.dataPoints));
+            viewModel.minValue = d3.min(viewModel.panels, panel => panel.minValue) || 0;
+            viewModel.maxValue = d3.max(viewModel.panels, panel => panel.maxValue) || 0;
+            viewModel.highlights = viewModel.dataPoints.filter(d => d.highlighted).length > 0;
+
+            let gradient = this.getGradientScale(d3.extent(viewModel.dataPoints, d => d.value));
+
+            // high contrast has one colour to draw with, so the series after the first are told apart by their hatching
+            for (let dp of viewModel.dataPoints) {
+                dp.colour = this.highContrast
+                    ? dp.series > 0 && multiSeries ? `url(#${this.patternPrefix}${dp.series})` : this.highContrast.foreground
+                    : this.getValueColour(dp.value, gradient) || dp.assignedColour;
             }
 
             return viewModel;
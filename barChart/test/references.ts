@@ -5,7 +5,7 @@
 /// <reference path="../node_modules/@types/jquery/index.d.ts" />
 
 /// power bi api and libraries
-/// <reference path="../.api/v1.6.0/PowerBI-visuals.d.ts" />
+/// <reference path="../.api/v2.1.0/PowerBI-visuals.d.ts" />
 /// <reference path="../node_modules/powerbi-visuals-utils-dataviewutils/lib/index.d.ts" />
 /// <reference path="../node_modules/powerbi-visuals-utils-dataviewutils/lib/index.d.ts" />
 /// <reference path="../node_modules/powerbi-visuals-utils-testutils/lib/index.d.ts"/>
@@ -15,10 +15,16 @@
 
 /// specific imports
 import Visual = powerbi.extensibility.visual.barChartBC80E870F53F457F81A8959510AC6A85.Visual;
+import ValueFormatter = powerbi.extensibility.visual.barChartBC80E870F53F457F81A8959510AC6A85.ValueFormatter;
+import AxisLabelLayout = powerbi.extensibility.visual.barChartBC80E870F53F457F81A8959510AC6A85.AxisLabelLayout;
+import Resources = powerbi.extensibility.visual.barChartBC80E870F53F457F81A8959510AC6A85.Resources;
+import Trends = powerbi.extensibility.visual.barChartBC80E870F53F457F81A8959510AC6A85.Trends;
 import IVisualHost = powerbi.extensibility.visual.IVisualHost;
 import MockIVisualHost = powerbi.extensibility.utils.test.mocks.MockIVisualHost;
 import MockIColorPalette = powerbi.extensibility.utils.test.mocks.MockIColorPalette;
 import MockISelectionManager = powerbi.extensibility.utils.test.mocks.MockISelectionManager;
+import MockISelectionId = powerbi.extensibility.utils.test.mocks.MockISelectionId;
 import MockITooltipService = powerbi.extensibility.utils.test.mocks.MockITooltipService;
 import MockILocale = powerbi.extensibility.utils.test.mocks.MockILocale;
-import MockIAllowInteractions = powerbi.extensibility.utils.test.mocks.MockIAllowInteractions;
\ No newline at end of file
+import MockIAllowInteractions = powerbi.extensibility.utils.test.mocks.MockIAllowInteractions;
+import MockILocalizationManager = powerbi.extensibility.utils.test.mocks.MockILocalizationManager;
\ No newline at end of file
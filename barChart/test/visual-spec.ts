@@ -1,7 +1,158 @@
-/// <reference path="_references.ts" />
+/// <reference path="references.ts" />
 
 module powerbi.extensibility.visual.test {
 
+  // the mock builder gives every id the same empty key, these keep the columns and measure they were built from
+  class KeyedSelectionId extends MockISelectionId {
+      public equals(other: powerbi.visuals.ISelectionId): boolean {
+          return !!other && other.getKey() === this.getKey();
+      }
+
+      public getSelector(): powerbi.data.Selector {
+          return { key: this.getKey() };
+      }
+  }
+
+  class KeyedSelectionIdBuilder implements ISelectionIdBuilder {
+      private parts: string[] = [];
+
+      public withCategory(categoryColumn: DataViewCategoryColumn, index: number): this {
+          this.parts.push(`${categoryColumn.source.queryName}=${categoryColumn.values[index]}`);
+          return this;
+      }
+
+      public withSeries(): this {
+          return this;
+      }
+
+      public withMeasure(measureId: string): this {
+          this.parts.push(measureId);
+          return this;
+      }
+
+      public createSelectionId(): ISelectionId {
+          return new KeyedSelectionId(this.parts.join("&"));
+      }
+  }
+
+  // the strings of stringResources/en-US.json, which the host's localization manager hands out for an en-US report
+  let displayNames: { [key: string]: string } = {
+      "DeviationAbsolute": "Deviation (abs)",
+      "DeviationPercent": "Deviation (%)",
+      "ChartLabel": "Bar chart",
+      "PercentOfTotal": "Percent of total",
+      "average": "Average",
+      "median": "Median",
+      "min": "Minimum",
+      "max": "Maximum",
+      "percentile": "Percentile {0}",
+      "constant": "Constant",
+      "AddFields": "Add a category and a value to see the chart",
+      "NotNumeric": "The values can't be drawn because they aren't numbers",
+      "NoValues": "There are no values to show",
+      "TrendLine": "Trend line",
+      "Projection": "Projection",
+      "MovingAverage": "Moving average ({0})",
+      "RSquared": "R²",
+      "Series": "Series",
+      "Value": "Value",
+      "Blank": "(Blank)"
+  };
+
+  interface TestColumn {
+      name: string;
+      values: PrimitiveValue[];
+      role?: string;
+      format?: string;
+  }
+
+  // a categorical data view as the host builds it from the capabilities, animations off so the DOM settles at once
+  function createDataView(categories: TestColumn[], measures: TestColumn[], objects?: DataViewObjects): DataView {
+      let source = (column: TestColumn, role: string) => <DataViewMetadataColumn>{
+          displayName: column.name,
+          queryName: `Sales.${column.name}`,
+          format: column.format,
+          roles: { [column.role || role]: true }
+      };
+      let allObjects: DataViewObjects = { animation: { show: false } };
+
+      Object.keys(objects || {}).forEach(name => allObjects[name] = objects[name]);
+
+      return {
+          metadata: {
+              columns: categories.map(c => source(c, "category")).concat(measures.map(m => source(m, "measure"))),
+              objects: allObjects
+          },
+          categorical: {
+              categories: categories.map(c => <DataViewCategoryColumn>{
+                  source: source(c, "category"),
+                  values: c.values
+              }),
+              values: <DataViewValueColumns>measures.map(m => <DataViewValueColumn>{
+                  source: source(m, "measure"),
+                  values: m.values
+              })
+          }
+      };
+  }
+
+  function updateVisual(visual: Visual, dataView: DataView, width: number = 400, height: number = 300) {
+      visual.update(<VisualUpdateOptions>{
+          dataViews: dataView ? [dataView] : [],
+          viewport: { width: width, height: height }
+      });
+
+      // transitions without a duration still wait for the next timer tick
+      d3.timer.flush();
+  }
+
+  function getTexts(element: HTMLElement, selector: string): string[] {
+      let elements = element.querySelectorAll(selector);
+      let texts: string[] = [];
+
+      for (let i = 0; i < elements.length; i++) {
+          texts.push(elements[i].textContent);
+      }
+
+      return texts;
+  }
+
+  function getFills(element: HTMLElement, selector: string): string[] {
+      let elements = element.querySelectorAll(selector);
+      let fills: string[] = [];
+
+      for (let i = 0; i < elements.length; i++) {
+          fills.push(d3.rgb((<SVGElement>elements[i]).style.fill).toString());
+      }
+
+      return fills;
+  }
+
+  function dispatchMouseEvent(element: Element, type: string, init?: MouseEventInit) {
+      let options: MouseEventInit = { bubbles: true, cancelable: true };
+
+      Object.keys(init || {}).forEach(key => options[key] = init[key]);
+      element.dispatchEvent(new MouseEvent(type, options));
+  }
+
+  function dispatchKeyboardEvent(element: Element, key: string, init?: KeyboardEventInit) {
+      let options: KeyboardEventInit = { bubbles: true, cancelable: true, key: key };
+
+      Object.keys(init || {}).forEach(k => options[k] = init[k]);
+      element.dispatchEvent(new KeyboardEvent("keydown", options));
+  }
+
+  function getSelectedStates(element: HTMLElement, selector: string): string[] {
+      let elements = element.querySelectorAll(selector);
+      let states: string[] = [];
+
+      for (let i = 0; i < elements.length; i++) {
+          states.push(elements[i].getAttribute("aria-selected"));
+      }
+
+      return states;
+  }
+
   describe("On the Visual class", () => {
 
       // define global spec variables here
@@ -22,7 +173,17 @@ module powerbi.extensibility.visual.test {
           tooltipService = new MockITooltipService();
           locale = new MockILocale({ "en": "en-US" });
           allowInteractions = new MockIAllowInteractions(true);
-          host = new MockIVisualHost(palette, selectionManager, tooltipService, locale, allowInteractions);
+          host = new MockIVisualHost(palette, selectionManager, tooltipService, locale, allowInteractions,
+              new MockILocalizationManager(displayNames));
+
+          spyOn(host, "createSelectionIdBuilder").and.callFake(() => new KeyedSelectionIdBuilder());
+          document.body.appendChild(target);
+
+      });
+
+      afterEach(() => {
+
+          document.body.removeChild(target);
 
       });
 
@@ -38,5 +199,1312 @@ module powerbi.extensibility.visual.test {
 
           });
       });
+
+      describe("the update method", () => {
+
+          it("must show the landing page while no fields are bound", () => {
+
+              let visual = new Visual({ element: target, host: host });
+
+              updateVisual(visual, null, 300, 200);
+
+              let landingPage = <HTMLElement>target.querySelector(".landing-page");
+
+              expect(landingPage.style.display).not.toBe("none");
+              expect(landingPage.textContent).toBe("Add a category and a value to see the chart");
+
+          });
+
+          it("must show an error in place of values that aren't numbers", () => {
+
+              let visual = new Visual({ element: target, host: host });
+
+              updateVisual(visual, createDataView(
+                  [{ name: "Region", values: ["North", "South"] }],
+                  [{ name: "Sales", values: ["high", "low"] }]));
+
+              expect(target.querySelector(".landing-page").textContent).toBe("The values can't be drawn because they aren't numbers");
+              expect(target.querySelectorAll(".bar").length).toBe(0);
+
+          });
+
+          it("must say so when every value is blank", () => {
+
+              let visual = new Visual({ element: target, host: host });
+
+              updateVisual(visual, createDataView(
+                  [{ name: "Region", values: ["North", "South"] }],
+                  [{ name: "Sales", values: [null, null] }]));
+
+              expect(target.querySelector(".landing-page").textContent).toBe("There are no values to show");
+
+          });
+
+          it("must hide the landing page once the chart can be drawn", () => {
+
+              let visual = new Visual({ element: target, host: host });
+
+              updateVisual(visual, null);
+              updateVisual(visual, createDataView(
+                  [{ name: "Region", values: ["North", "South"] }],
+                  [{ name: "Sales", values: [1, 2] }]));
+
+              expect((<HTMLElement>target.querySelector(".landing-page")).style.display).toBe("none");
+              expect(target.querySelectorAll(".bar").length).toBe(2);
+
+          });
+      });
+
+      describe("the value axis", () => {
+
+          let dataView = (yAxis: DataViewObject) => createDataView(
+              [{ name: "Region", values: ["North", "South", "East"] }],
+              [{ name: "Sales", values: [3, 40, 900] }],
+              { yAxis: yAxis });
+
+          it("must title the axes with the display names of their fields", () => {
+
+              let visual = new Visual({ element: target, host: host });
+
+              updateVisual(visual, createDataView(
+                  [{ name: "Region", values: ["North", "South"] }],
+                  [{ name: "Sales", values: [1, 2] }],
+                  { xAxis: { showTitle: true }, yAxis: { showTitle: true, titleText: "Revenue" } }));
+
+              expect(target.querySelector(".x-axis-title").textContent).toBe("Region");
+              expect(target.querySelector(".y-axis-title").textContent).toBe("Revenue");
+
+          });
+
+          it("must label only the 1, 2 and 5 ticks of a log scale", () => {
+
+              let visual = new Visual({ element: target, host: host });
+
+              updateVisual(visual, dataView({ scaleType: "log" }));
+
+              let labels = getTexts(target, ".y-axis .tick text").filter(text => !!text);
+
+              expect(labels).toContain("10");
+              expect(labels).toContain("500");
+              expect(labels).not.toContain("30");
+
+          });
+
+          it("must fall back to a linear scale when the log one would have to reach zero", () => {
+
+              let visual = new Visual({ element: target, host: host });
+
+              updateVisual(visual, dataView({ scaleType: "log", start: 0 }));
+
+              expect(getTexts(target, ".y-axis .tick text")).toContain("0");
+
+          });
+      });
+
+      describe("the horizontal orientation", () => {
+
+          it("must lay the categories along y and grow the bars along x from the same baseline", () => {
+
+              let visual = new Visual({ element: target, host: host });
+
+              updateVisual(visual, createDataView(
+                  [{ name: "Region", values: ["North", "South"] }],
+                  [{ name: "Sales", values: [1, 2] }],
+                  { layout: { orientation: "horizontal" } }));
+
+              let bars = target.querySelectorAll(".bar");
+              let widths = [0, 1].map(i => +bars[i].getAttribute("width"));
+
+              expect(getTexts(target, ".y-axis .tick text")).toEqual(["North", "South"]);
+              expect(bars[0].getAttribute("x")).toBe(bars[1].getAttribute("x"));
+              expect(+bars[0].getAttribute("y")).toBeLessThan(+bars[1].getAttribute("y"));
+              expect(widths[1]).toBeCloseTo(widths[0] * 2, 0);
+              expect(bars[0].getAttribute("height")).toBe(bars[1].getAttribute("height"));
+
+          });
+      });
+
+      describe("the negative values", () => {
+
+          let dataView = (negativeBars?: DataViewObject) => createDataView(
+              [{ name: "Region", values: ["North", "South"] }],
+              [{ name: "Sales", values: [-2, 4] }],
+              negativeBars ? { negativeBars: negativeBars } : undefined);
+
+          it("must grow the bars down and up from a baseline inside the value range", () => {
+
+              let visual = new Visual({ element: target, host: host });
+
+              updateVisual(visual, dataView());
+
+              let bars = target.querySelectorAll(".bar");
+              let baseline = +target.querySelector(".baseline").getAttribute("y1");
+              let heights = [0, 1].map(i => +bars[i].getAttribute("height"));
+
+              expect(+bars[0].getAttribute("y")).toBeCloseTo(baseline, 5);
+              expect(+bars[1].getAttribute("y") + heights[1]).toBeCloseTo(baseline, 5);
+              expect(heights[1]).toBeCloseTo(heights[0] * 2, 0);
+
+          });
+
+          it("must fill the negative bars in their own colour when that is switched on", () => {
+
+              let visual = new Visual({ element: target, host: host });
+
+              updateVisual(visual, dataView({ show: true, fill: { solid: { color: "#123456" } } }));
+
+              let fills = getFills(target, ".bar");
+
+              expect(fills[0]).toBe("#123456");
+              expect(fills[1]).not.toBe("#123456");
+
+          });
+      });
+
+      describe("the data labels", () => {
+
+          let getDisplays = () => {
+              let labels = target.querySelectorAll(".label");
+              let displays: string[] = [];
+
+              for (let i = 0; i < labels.length; i++) {
+                  displays.push((<SVGElement>labels[i]).style.display);
+              }
+
+              return displays;
+          };
+
+          it("must format the values with the column format and put them past the bar ends", () => {
+
+              let visual = new Visual({ element: target, host: host });
+
+              updateVisual(visual, createDataView(
+                  [{ name: "Region", values: ["North", "South"] }],
+                  [{ name: "Sales", values: [1500, 3000], format: "\\$#,0" }],
+                  { labels: { show: true, displayUnits: 1 } }));
+
+              let bars = target.querySelectorAll(".bar");
+              let labels = target.querySelectorAll(".label");
+
+              expect(getTexts(target, ".label")).toEqual(["$1,500", "$3,000"]);
+              expect(+labels[0].getAttribute("y")).toBeLessThan(+bars[0].getAttribute("y"));
+              expect(+labels[1].getAttribute("y")).toBeLessThan(+bars[1].getAttribute("y"));
+
+          });
+
+          it("must put them inside the bar ends when asked to", () => {
+
+              let visual = new Visual({ element: target, host: host });
+
+              updateVisual(visual, createDataView(
+                  [{ name: "Region", values: ["North"] }],
+                  [{ name: "Sales", values: [3000] }],
+                  { labels: { show: true, position: "insideEnd" } }));
+
+              expect(+target.querySelector(".label").getAttribute("y")).toBeGreaterThan(+target.querySelector(".bar").getAttribute("y"));
+
+          });
+
+          it("must hide a label that collides with one already placed", () => {
+
+              let visual = new Visual({ element: target, host: host });
+
+              updateVisual(visual, createDataView(
+                  [{ name: "Region", values: ["North"] }],
+                  [
+                      { name: "Sales", values: [100] },
+                      { name: "Cost", values: [1] }
+                  ],
+                  { layout: { mode: "stacked" }, labels: { show: true }, yAxis: { end: 200 } }));
+
+              expect(getDisplays()).toEqual(["", "none"]);
+
+          });
+
+          it("must hide a label that doesn't fit inside its bar", () => {
+
+              let visual = new Visual({ element: target, host: host });
+
+              updateVisual(visual, createDataView(
+                  [{ name: "Region", values: ["North", "South"] }],
+                  [{ name: "Sales", values: [1, 100] }],
+                  { labels: { show: true, position: "insideEnd" } }));
+
+              expect(getDisplays()).toEqual(["none", ""]);
+
+          });
+      });
+
+      describe("the reference lines", () => {
+
+          let dataView = (objects: DataViewObjects) => createDataView(
+              [{ name: "Region", values: ["North", "South", "East", "West"] }],
+              [{ name: "Sales", values: [1, 2, 3, 6] }],
+              objects);
+
+          it("must draw the average across the plot at the height of a bar of that value", () => {
+
+              let visual = new Visual({ element: target, host: host });
+
+              updateVisual(visual, dataView({ averageLine: { show: true } }));
+
+              let line = target.querySelector(".reference-line");
+
+              expect(target.querySelectorAll(".reference-line").length).toBe(1);
+              expect(+line.getAttribute("y1")).toBeCloseTo(+target.querySelectorAll(".bar")[2].getAttribute("y"), 5);
+              expect(+line.getAttribute("x2")).toBeGreaterThan(+line.getAttribute("x1"));
+              expect(getTexts(target, ".reference-label")).toEqual(["Average: 3"]);
+
+          });
+
+          it("must label the median, the percentile and the constant with their values or a custom label", () => {
+
+              let visual = new Visual({ element: target, host: host });
+
+              updateVisual(visual, dataView({
+                  medianLine: { show: true },
+                  percentileLine: { show: true, percentile: 50 },
+                  constantLine: { show: true, value: 5, label: "Target" },
+                  minLine: { show: true, showLabel: false }
+              }));
+
+              expect(target.querySelectorAll(".reference-line").length).toBe(4);
+              expect(getTexts(target, ".reference-label")).toEqual(["Median: 2.5", "Percentile 50: 2.5", "Target: 5"]);
+
+          });
+      });
+
+      describe("the format pane", () => {
+
+          let visual: Visual;
+
+          // the axes are listed by the visual itself, the other objects by the settings parser
+          let getProperties = (objectName: string) => {
+              let enumeration = visual.enumerateObjectInstances({ objectName: objectName });
+              let instances = (<VisualObjectInstanceEnumerationObject>enumeration).instances || <VisualObjectInstance[]>enumeration;
+
+              return instances[0].properties;
+          };
+
+          beforeEach(() => {
+              visual = new Visual({ element: target, host: host });
+
+              updateVisual(visual, createDataView(
+                  [{ name: "Region", values: ["North", "South"] }],
+                  [{ name: "Sales", values: [1, 2] }],
+                  {
+                      border: { top: 25, right: -5 },
+                      xAxis: { padding: 40, color: { solid: { color: "#123456" } } },
+                      labels: { show: true, fontSize: 12 }
+                  }));
+          });
+
+          it("must give back the values the report set, clamped to their ranges", () => {
+
+              expect(getProperties("border")).toEqual({ top: 25, right: 0 });
+              expect(getProperties("labels")).toEqual(jasmine.objectContaining({ show: true, fontSize: 12, position: "outsideEnd" }));
+
+          });
+
+          it("must list every axis property but the value ones on the category axis", () => {
+
+              let xAxis = getProperties("xAxis");
+              let yAxis = getProperties("yAxis");
+
+              expect(xAxis).toEqual(jasmine.objectContaining({ padding: 40, color: "#123456", show: true }));
+              expect(Object.keys(xAxis)).not.toContain("scaleType");
+              expect(Object.keys(yAxis)).toContain("scaleType");
+
+          });
+      });
+
+      describe("the sort order", () => {
+
+          it("must sort blanks, numbers and dates by value rather than by their text", () => {
+
+              let visual = new Visual({ element: target, host: host });
+
+              updateVisual(visual, createDataView(
+                  [{ name: "Year", values: [10, null, 9, 100] }],
+                  [{ name: "Sales", values: [1, 2, 3, 4] }],
+                  { sort: { order: "categoryAscending" } }));
+
+              expect(getTexts(target, ".x-axis .tick text")).toEqual(["(Blank)", "9", "10", "100"]);
+
+          });
+      });
+
+      describe("the drill down", () => {
+
+          let visual: Visual;
+
+          beforeEach(() => {
+              visual = new Visual({ element: target, host: host });
+          });
+
+          it("must draw the one level the host sends after drilling down", () => {
+
+              updateVisual(visual, createDataView(
+                  [{ name: "Quarter", values: ["Q1", "Q2"] }],
+                  [{ name: "Sales", values: [1, 2] }]));
+
+              expect(getTexts(target, ".x-axis .tick text")).toEqual(["Q1", "Q2"]);
+
+          });
+
+          it("must label expanded levels with the drill path and keep repeated members apart", () => {
+
+              updateVisual(visual, createDataView(
+                  [
+                      { name: "Year", values: [2019, 2019, 2020] },
+                      { name: "Quarter", values: ["Q1", "Q2", "Q1"] }
+                  ],
+                  [{ name: "Sales", values: [1, 2, 3] }]));
+
+              expect(getTexts(target, ".x-axis .tick text")).toEqual(["2019 Q1", "2019 Q2", "2020 Q1"]);
+              expect(target.querySelectorAll(".bar").length).toBe(3);
+
+          });
+
+          it("must not merge paths whose members only join into the same text", () => {
+
+              updateVisual(visual, createDataView(
+                  [
+                      { name: "Group", values: ["A B", "A", null] },
+                      { name: "Item", values: ["C", "B C", "D"] }
+                  ],
+                  [{ name: "Sales", values: [1, 2, 3] }]));
+
+              expect(getTexts(target, ".x-axis .tick text")).toEqual(["A B C", "A B C", "(Blank) D"]);
+              expect(target.querySelectorAll(".bar").length).toBe(3);
+
+          });
+
+          it("must build each bar's identity from every level", () => {
+
+              updateVisual(visual, createDataView(
+                  [
+                      { name: "Year", values: [2019, 2020] },
+                      { name: "Quarter", values: ["Q1", "Q1"] }
+                  ],
+                  [{ name: "Sales", values: [1, 2] }]));
+              dispatchMouseEvent(target.querySelectorAll(".bar")[1], "click");
+
+              expect(selectionManager.getSelectionIds().map(id => (<powerbi.visuals.ISelectionId>id).getKey()))
+                  .toEqual(["Sales.Year=2020&Sales.Quarter=Q1"]);
+
+          });
+      });
+
+      describe("the selection", () => {
+
+          let visual: Visual;
+          let dataView: DataView;
+
+          beforeEach(() => {
+              visual = new Visual({ element: target, host: host });
+              dataView = createDataView(
+                  [{ name: "Region", values: ["North", "South", "East"] }],
+                  [{ name: "Sales", values: [1, 2, 3] }]);
+
+              updateVisual(visual, dataView);
+          });
+
+          it("must replace the selection on a click and extend it with ctrl", () => {
+
+              let bars = target.querySelectorAll(".bar");
+
+              dispatchMouseEvent(bars[0], "click");
+              dispatchMouseEvent(bars[1], "click");
+              dispatchMouseEvent(bars[2], "click", { ctrlKey: true });
+
+              expect(getSelectedStates(target, ".bar")).toEqual(["false", "true", "true"]);
+
+          });
+
+          it("must clear the selection on a background click", () => {
+
+              dispatchMouseEvent(target.querySelectorAll(".bar")[0], "click");
+              dispatchMouseEvent(target.querySelector("svg"), "click");
+
+              expect(selectionManager.hasSelection()).toBe(false);
+              expect(getSelectedStates(target, ".bar")).toEqual(["false", "false", "false"]);
+
+          });
+
+          it("must restore the host's selection on the bars of the next update", () => {
+
+              dispatchMouseEvent(target.querySelectorAll(".bar")[1], "click");
+              updateVisual(visual, dataView);
+
+              expect(getSelectedStates(target, ".bar")).toEqual(["false", "true", "false"]);
+
+          });
+      });
+
+      describe("the context menu", () => {
+
+          let showContextMenu: jasmine.Spy;
+
+          beforeEach(() => {
+              // showContextMenu came after the 2.1.0 API, neither its typings nor the mock selection manager have it
+              showContextMenu = (<{ showContextMenu?: jasmine.Spy }><{}>selectionManager).showContextMenu = jasmine.createSpy("showContextMenu");
+          });
+
+          it("must open the host's menu for the bar under the pointer", () => {
+
+              let visual = new Visual({ element: target, host: host });
+
+              updateVisual(visual, createDataView(
+                  [{ name: "Region", values: ["North", "South"] }],
+                  [{ name: "Sales", values: [1, 2] }]));
+              dispatchMouseEvent(target.querySelectorAll(".bar")[1], "contextmenu", { clientX: 120, clientY: 80 });
+
+              let args = showContextMenu.calls.mostRecent().args;
+
+              expect(showContextMenu).toHaveBeenCalledTimes(1);
+              expect((<powerbi.visuals.ISelectionId>args[0]).getKey()).toBe("Sales.Region=South");
+              expect(args[1]).toEqual({ x: 120, y: 80 });
+
+          });
+
+          it("must open it without a data point on the background", () => {
+
+              let visual = new Visual({ element: target, host: host });
+
+              updateVisual(visual, createDataView(
+                  [{ name: "Region", values: ["North", "South"] }],
+                  [{ name: "Sales", values: [1, 2] }]));
+              dispatchMouseEvent(target.querySelector("svg"), "contextmenu", { clientX: 5, clientY: 6 });
+
+              expect(showContextMenu).toHaveBeenCalledWith({}, { x: 5, y: 6 });
+
+          });
+
+          it("must leave the browser's menu alone on hosts without one", () => {
+
+              let visual = new Visual({ element: target, host: host });
+              let event = new MouseEvent("contextmenu", { bubbles: true, cancelable: true });
+
+              delete (<{ showContextMenu?: jasmine.Spy }><{}>selectionManager).showContextMenu;
+              updateVisual(visual, createDataView(
+                  [{ name: "Region", values: ["North", "South"] }],
+                  [{ name: "Sales", values: [1, 2] }]));
+              target.querySelector(".bar").dispatchEvent(event);
+
+              expect(event.defaultPrevented).toBe(false);
+
+          });
+      });
+
+      describe("the keyboard support", () => {
+
+          let visual: Visual;
+
+          beforeEach(() => {
+              visual = new Visual({ element: target, host: host });
+
+              updateVisual(visual, createDataView(
+                  [{ name: "Region", values: ["North", "South", "East"] }],
+                  [{ name: "Sales", values: [1, 2, 3] }]));
+          });
+
+          it("must keep one bar in the tab order with a label for screen readers", () => {
+
+              let bars = target.querySelectorAll(".bar");
+
+              expect(bars[0].getAttribute("tabindex")).toBe("0");
+              expect(bars[1].getAttribute("tabindex")).toBe("-1");
+              expect(bars[0].getAttribute("aria-label")).toBe("Region: North, Sales: 1, Average: 2, Deviation (abs): -1, Deviation (%): -50.00%");
+
+          });
+
+          it("must move the focus with the arrow keys and select with Enter", () => {
+
+              let bars = target.querySelectorAll(".bar");
+
+              (<HTMLElement>bars[0]).focus();
+              dispatchKeyboardEvent(bars[0], "ArrowRight");
+
+              expect(document.activeElement).toBe(bars[1]);
+              expect(bars[1].getAttribute("tabindex")).toBe("0");
+
+              dispatchKeyboardEvent(bars[1], "End");
+              dispatchKeyboardEvent(bars[2], "Enter");
+
+              expect(document.activeElement).toBe(bars[2]);
+              expect(getSelectedStates(target, ".bar")).toEqual(["false", "false", "true"]);
+
+          });
+      });
+
+      describe("the animation", () => {
+
+          let dataView = (show: boolean) => createDataView(
+              [{ name: "Region", values: ["North", "South"] }],
+              [{ name: "Sales", values: [1, 2] }],
+              { animation: { show: show, duration: 250 } });
+
+          it("must grow new bars from the baseline", () => {
+
+              let visual = new Visual({ element: target, host: host });
+
+              updateVisual(visual, dataView(true));
+
+              expect(+target.querySelector(".bar").getAttribute("height")).toBeLessThan(1);
+
+          });
+
+          it("must draw the bars at once when it is switched off", () => {
+
+              let visual = new Visual({ element: target, host: host });
+
+              updateVisual(visual, dataView(false));
+
+              expect(+target.querySelector(".bar").getAttribute("height")).toBeGreaterThan(0);
+
+          });
+      });
+
+      describe("the scrolling", () => {
+
+          let dataView = (count: number) => createDataView(
+              [{ name: "Region", values: d3.range(count).map(i => `Region ${i}`) }],
+              [{ name: "Sales", values: d3.range(count).map(i => i + 1) }]);
+
+          it("must show a window of the categories and a scrollbar when they don't fit", () => {
+
+              let visual = new Visual({ element: target, host: host });
+
+              updateVisual(visual, dataView(100));
+
+              expect(target.querySelectorAll(".bar").length).toBeLessThan(100);
+              expect(+target.querySelector(".scrollbar-thumb").getAttribute("width")).toBeGreaterThan(0);
+
+          });
+
+          it("must move the window on by one category for a wheel step", () => {
+
+              let visual = new Visual({ element: target, host: host });
+
+              updateVisual(visual, dataView(100));
+              target.querySelector("svg").dispatchEvent(new WheelEvent("wheel", { bubbles: true, cancelable: true, deltaY: 100 }));
+              d3.timer.flush();
+
+              expect(target.querySelector(".bar").getAttribute("aria-label")).toMatch(/^Region: Region 1,/);
+
+          });
+
+          it("must ask the host for the next segment once the last loaded category is shown", () => {
+
+              let visual = new Visual({ element: target, host: host });
+              let segmented = dataView(5);
+
+              segmented.metadata.segment = {};
+              host.fetchMoreData = jasmine.createSpy("fetchMoreData").and.returnValue(true);
+
+              updateVisual(visual, segmented);
+
+              expect(host.fetchMoreData).toHaveBeenCalledTimes(1);
+
+          });
+
+          it("must ask once for each segment however often the chart is drawn again", () => {
+
+              let visual = new Visual({ element: target, host: host });
+              let segmented = dataView(5);
+
+              segmented.metadata.segment = {};
+              host.fetchMoreData = jasmine.createSpy("fetchMoreData").and.returnValue(false);
+
+              updateVisual(visual, segmented);
+              updateVisual(visual, segmented, 500, 300);
+
+              expect(host.fetchMoreData).toHaveBeenCalledTimes(1);
+
+              let next = dataView(10);
+
+              next.metadata.segment = {};
+              updateVisual(visual, next);
+
+              expect(host.fetchMoreData).toHaveBeenCalledTimes(2);
+
+          });
+
+          it("must not ask for more while the window is short of the last category", () => {
+
+              let visual = new Visual({ element: target, host: host });
+              let segmented = dataView(100);
+
+              segmented.metadata.segment = {};
+              host.fetchMoreData = jasmine.createSpy("fetchMoreData").and.returnValue(true);
+
+              updateVisual(visual, segmented);
+
+              expect(host.fetchMoreData).not.toHaveBeenCalled();
+
+          });
+      });
+
+      describe("the small multiples", () => {
+
+          let visual: Visual;
+
+          beforeEach(() => {
+              visual = new Visual({ element: target, host: host });
+
+              updateVisual(visual, createDataView(
+                  [
+                      { name: "Region", values: ["North", "South", "North", "South"] },
+                      { name: "Store", values: ["Lisbon", "Lisbon", null, null], role: "smallMultiples" }
+                  ],
+                  [{ name: "Sales", values: [1, 2, 3, 4] }]));
+          });
+
+          it("must draw one titled panel per value with a (Blank) one for the empty value", () => {
+
+              expect(getTexts(target, ".panel-title")).toEqual(["Lisbon", "(Blank)"]);
+              expect(target.querySelectorAll(".panel")[1].querySelectorAll(".bar").length).toBe(2);
+
+          });
+
+          it("must build the bars' identities from the category and the panel", () => {
+
+              dispatchMouseEvent(target.querySelectorAll(".panel")[1].querySelector(".bar"), "click");
+
+              expect(selectionManager.getSelectionIds().map(id => (<powerbi.visuals.ISelectionId>id).getKey()))
+                  .toEqual(["Sales.Region=North&Sales.Store=null"]);
+
+          });
+
+          it("must scroll every panel through the same window of categories", () => {
+
+              updateVisual(visual, createDataView(
+                  [
+                      { name: "Region", values: d3.range(80).map(i => `Region ${i % 40}`) },
+                      { name: "Store", values: d3.range(80).map(i => i < 40 ? "Lisbon" : "Porto"), role: "smallMultiples" }
+                  ],
+                  [{ name: "Sales", values: d3.range(80).map(i => i + 1) }]));
+
+              let firstLabels = () => [0, 1].map(i => target.querySelectorAll(".panel")[i].querySelector(".bar").getAttribute("aria-label"));
+              let panels = target.querySelectorAll(".panel");
+
+              expect(panels[0].querySelectorAll(".bar").length).toBeLessThan(40);
+              expect(panels[1].querySelectorAll(".bar").length).toBe(panels[0].querySelectorAll(".bar").length);
+              expect(firstLabels().map(label => label.split(",")[0])).toEqual(["Region: Region 0", "Region: Region 0"]);
+              expect((<HTMLElement>target.querySelector(".scrollbar")).style.display).not.toBe("none");
+
+              target.querySelector("svg").dispatchEvent(new WheelEvent("wheel", { bubbles: true, cancelable: true, deltaY: 100 }));
+              d3.timer.flush();
+
+              expect(firstLabels().map(label => label.split(",")[0])).toEqual(["Region: Region 1", "Region: Region 1"]);
+
+          });
+
+          it("must list each category once in the format pane, selected by the category alone", () => {
+
+              let instances = <VisualObjectInstance[]>visual.enumerateObjectInstances({ objectName: "dataColors" });
+
+              expect(instances.map(instance => instance.displayName)).toEqual(["North", "South"]);
+              expect(instances.map(instance => instance.selector)).toEqual([
+                  { key: "Sales.Region=North" },
+                  { key: "Sales.Region=South" }
+              ]);
+
+          });
+      });
+
+      describe("the table view", () => {
+
+          let visual: Visual;
+
+          let getColumn = (index: number) => getTexts(target, `.data-table tbody tr td:nth-child(${index})`);
+
+          beforeEach(() => {
+              visual = new Visual({ element: target, host: host });
+
+              updateVisual(visual, createDataView(
+                  [{ name: "Region", values: ["North", "South", "East"] }],
+                  [{ name: "Sales", values: [2, 3, 1] }],
+                  { tableView: { show: true }, deviation: { show: false } }));
+          });
+
+          it("must list one row per bar in the order of the bars", () => {
+
+              expect(getTexts(target, ".data-table thead th")).toEqual(["Region", "Value"]);
+              expect(getColumn(1)).toEqual(["North", "South", "East"]);
+
+          });
+
+          it("must sort ascending, then descending, then back to the data order", () => {
+
+              let valueHeader = target.querySelectorAll(".data-table thead th")[1];
+
+              dispatchMouseEvent(valueHeader, "click");
+
+              expect(getColumn(1)).toEqual(["East", "North", "South"]);
+              expect(valueHeader.getAttribute("aria-sort")).toBe("ascending");
+
+              dispatchMouseEvent(valueHeader, "click");
+
+              expect(getColumn(1)).toEqual(["South", "North", "East"]);
+              expect(valueHeader.getAttribute("aria-sort")).toBe("descending");
+
+              dispatchMouseEvent(valueHeader, "click");
+
+              expect(getColumn(1)).toEqual(["North", "South", "East"]);
+              expect(valueHeader.getAttribute("aria-sort")).toBe("none");
+
+          });
+
+          it("must sort the category column by the categories, whatever order the chart has", () => {
+
+              updateVisual(visual, createDataView(
+                  [{ name: "Region", values: ["North", "South", "East"] }],
+                  [{ name: "Sales", values: [2, 3, 1] }],
+                  { tableView: { show: true }, deviation: { show: false }, sort: { order: "valueDescending" } }));
+
+              expect(getColumn(1)).toEqual(["South", "North", "East"]);
+
+              dispatchMouseEvent(target.querySelector(".data-table thead th"), "click");
+
+              expect(getColumn(1)).toEqual(["East", "North", "South"]);
+
+          });
+
+          it("must sort numeric categories by value", () => {
+
+              updateVisual(visual, createDataView(
+                  [{ name: "Year", values: [10, 9, 100] }],
+                  [{ name: "Sales", values: [1, 2, 3] }],
+                  { tableView: { show: true }, deviation: { show: false } }));
+
+              dispatchMouseEvent(target.querySelector(".data-table thead th"), "click");
+
+              expect(getColumn(1)).toEqual(["9", "10", "100"]);
+
+          });
+
+          it("must move the focus between rows with the arrow keys and select with Enter", () => {
+
+              let rows = target.querySelectorAll(".data-table tbody tr");
+
+              (<HTMLElement>rows[0]).focus();
+              dispatchKeyboardEvent(rows[0], "ArrowDown");
+
+              expect(document.activeElement).toBe(rows[1]);
+              expect(rows[1].getAttribute("tabindex")).toBe("0");
+              expect(rows[0].getAttribute("tabindex")).toBe("-1");
+
+              dispatchKeyboardEvent(rows[1], "End");
+              dispatchKeyboardEvent(rows[2], "Enter");
+
+              expect(document.activeElement).toBe(rows[2]);
+              expect(getSelectedStates(target, ".data-table tbody tr")).toEqual(["false", "false", "true"]);
+
+          });
+
+          it("must add a column for the small multiples field", () => {
+
+              updateVisual(visual, createDataView(
+                  [
+                      { name: "Region", values: ["North", "North"] },
+                      { name: "Store", values: ["Lisbon", null], role: "smallMultiples" }
+                  ],
+                  [{ name: "Sales", values: [1, 2] }],
+                  { tableView: { show: true }, deviation: { show: false } }));
+
+              expect(getTexts(target, ".data-table thead th")).toEqual(["Region", "Store", "Value"]);
+              expect(getColumn(2)).toEqual(["Lisbon", "(Blank)"]);
+
+          });
+      });
+
+      describe("the high contrast mode", () => {
+
+          let visual: Visual;
+
+          beforeEach(() => {
+              spyOnProperty(host, "colorPalette", "get").and.returnValue(<ISandboxExtendedColorPalette>{
+                  isHighContrast: true,
+                  foreground: { value: "#ffff00" },
+                  background: { value: "#000000" },
+                  foregroundSelected: { value: "#00ffff" },
+                  getColor: (key: string) => palette.getColor(key)
+              });
+              visual = new Visual({ element: target, host: host });
+          });
+
+          it("must draw every bar of a single measure in the foreground colour", () => {
+
+              updateVisual(visual, createDataView(
+                  [{ name: "Region", values: ["North", "South"] }],
+                  [{ name: "Sales", values: [1, 2] }],
+                  { dataColors: { fill: { solid: { color: "#ff0000" } } } }));
+
+              expect(getFills(target, ".bar")).toEqual(["#ffff00", "#ffff00"]);
+              expect(visual.enumerateObjectInstances({ objectName: "dataColors" })).toEqual([]);
+
+          });
+
+          it("must hatch each measure after the first so the series stay apart", () => {
+
+              updateVisual(visual, createDataView(
+                  [{ name: "Region", values: ["North"] }],
+                  [
+                      { name: "Sales", values: [1] },
+                      { name: "Costs", values: [2] },
+                      { name: "Profit", values: [3] }
+                  ]));
+
+              let bars = target.querySelectorAll(".bar");
+              let patterns = target.querySelectorAll("defs pattern");
+              let fillOf = (element: Element) => (<SVGElement>element).style.fill;
+
+              expect(d3.rgb(fillOf(bars[0])).toString()).toBe("#ffff00");
+              expect(fillOf(bars[1])).toContain(`#${patterns[0].id}`);
+              expect(fillOf(bars[2])).toContain(`#${patterns[1].id}`);
+              expect(patterns[0].getAttribute("patternTransform")).not.toBe(patterns[1].getAttribute("patternTransform"));
+              expect(patterns[0].querySelector("line").getAttribute("stroke")).toBe("#ffff00");
+
+          });
+
+          it("must outline the focused row and header of the table in the foreground colour", () => {
+
+              updateVisual(visual, createDataView(
+                  [{ name: "Region", values: ["North", "South"] }],
+                  [{ name: "Sales", values: [1, 2] }],
+                  { tableView: { show: true } }));
+
+              let row = <HTMLElement>target.querySelector(".data-table tbody tr");
+              let header = <HTMLElement>target.querySelector(".data-table th");
+
+              expect(target.querySelector(".data-table-container").classList).toContain("high-contrast");
+              expect(d3.rgb(row.style.outlineColor).toString()).toBe("#ffff00");
+              expect(d3.rgb(header.style.outlineColor).toString()).toBe("#ffff00");
+
+          });
+      });
+
+      describe("the brush", () => {
+
+          let visual: Visual;
+          let select: jasmine.Spy;
+
+          let createBrushDataView = (objects?: DataViewObjects) => createDataView(
+              [{ name: "Region", values: ["North", "South", "East"] }],
+              [{ name: "Sales", values: [1, 2, 3] }],
+              objects);
+
+          // d3 follows the drag on the window once it has started on the brush
+          let drag = (from: number, to: number, init?: MouseEventInit) => {
+              let options: MouseEventInit = { clientX: from, clientY: 0 };
+
+              Object.keys(init || {}).forEach(key => options[key] = init[key]);
+              dispatchMouseEvent(target.querySelector(".brush .background"), "mousedown", options);
+              window.dispatchEvent(new MouseEvent("mousemove", { clientX: to, clientY: 0 }));
+              window.dispatchEvent(new MouseEvent("mouseup", { clientX: to, clientY: 0 }));
+          };
+
+          let getBarCentre = (index: number) => {
+              let bar = target.querySelectorAll(".bar")[index];
+
+              return +bar.getAttribute("x") + +bar.getAttribute("width") / 2;
+          };
+
+          // the mock manager applies the ids of one call one after the other, so the call is checked rather than its result
+          let getSelectedKeys = () => (<powerbi.visuals.ISelectionId[]>select.calls.mostRecent().args[0]).map(id => id.getKey());
+
+          beforeEach(() => {
+              visual = new Visual({ element: target, host: host });
+              select = spyOn(selectionManager, "select").and.callThrough();
+          });
+
+          it("must select every bar it covers in one call", () => {
+
+              updateVisual(visual, createBrushDataView());
+              drag(getBarCentre(0), getBarCentre(1));
+
+              expect(select).toHaveBeenCalledTimes(1);
+              expect(getSelectedKeys()).toEqual(["Sales.Region=North", "Sales.Region=South"]);
+              expect(select.calls.mostRecent().args[1]).toBe(false);
+
+          });
+
+          it("must add the covered bars to the selection with shift", () => {
+
+              updateVisual(visual, createBrushDataView());
+              dispatchMouseEvent(target.querySelectorAll(".bar")[2], "click");
+              drag(getBarCentre(1), getBarCentre(2), { shiftKey: true });
+
+              expect(select).toHaveBeenCalledTimes(2);
+              expect(getSelectedKeys()).toEqual(["Sales.Region=South"]);
+              expect(select.calls.mostRecent().args[1]).toBe(true);
+              expect(getSelectedStates(target, ".bar")).toEqual(["false", "true", "true"]);
+
+          });
+
+          it("must not ask for anything with shift when every covered bar is selected already", () => {
+
+              updateVisual(visual, createBrushDataView());
+              dispatchMouseEvent(target.querySelectorAll(".bar")[1], "click");
+              drag(getBarCentre(1) - 1, getBarCentre(1) + 1, { shiftKey: true });
+
+              expect(select).toHaveBeenCalledTimes(1);
+              expect(getSelectedStates(target, ".bar")).toEqual(["false", "true", "false"]);
+
+          });
+
+          it("must keep what it selected when the mouse is let go outside it", () => {
+
+              let clear = spyOn(selectionManager, "clear").and.callThrough();
+              let svg = target.querySelector("svg");
+
+              updateVisual(visual, createBrushDataView());
+              drag(getBarCentre(0), getBarCentre(1));
+
+              // the browser clicks the element the mousedown and the mouseup have in common
+              dispatchMouseEvent(svg, "click");
+
+              expect(clear).not.toHaveBeenCalled();
+              expect(getSelectedStates(target, ".bar")[1]).toBe("true");
+
+              dispatchMouseEvent(svg, "mousedown");
+              dispatchMouseEvent(svg, "click");
+
+              expect(clear).toHaveBeenCalledTimes(1);
+
+          });
+
+          it("must take the preview back when the host refuses the selection", () => {
+
+              updateVisual(visual, createBrushDataView());
+              select.and.returnValue($.Deferred().reject().promise());
+              drag(getBarCentre(0), getBarCentre(1));
+
+              expect(getSelectedStates(target, ".bar")).toEqual(["false", "false", "false"]);
+
+          });
+
+          it("must lie under the axes so their labels keep the hover", () => {
+
+              updateVisual(visual, createBrushDataView());
+
+              let groups = Array.prototype.slice.call(target.querySelector(".panel").children);
+
+              expect(groups.indexOf(target.querySelector(".brush"))).toBeLessThan(groups.indexOf(target.querySelector(".x-axis")));
+
+          });
+
+          it("must keep a band of its own when the category axis is hidden", () => {
+
+              updateVisual(visual, createBrushDataView({ xAxis: { show: false } }));
+              drag(getBarCentre(1), getBarCentre(2));
+
+              expect(+target.querySelector(".brush .background").getAttribute("height")).toBeGreaterThan(0);
+              expect(getSelectedKeys()).toEqual(["Sales.Region=South", "Sales.Region=East"]);
+
+          });
+      });
+
+      describe("the tooltips", () => {
+
+          let dataView = (deviation: boolean) => createDataView(
+              [{ name: "Region", values: ["North", "South"] }],
+              [
+                  { name: "Sales", values: [1, 3] },
+                  { name: "Margin", values: [0.25, 0.5], role: "tooltips", format: "0%" }
+              ],
+              { deviation: { show: deviation } });
+
+          let hoverFirstBar = () => {
+              let show = spyOn(tooltipService, "show");
+
+              dispatchMouseEvent(target.querySelector(".bar"), "mouseover");
+
+              return (<TooltipShowOptions>show.calls.mostRecent().args[0]).dataItems.map(item => `${item.displayName}: ${item.value}`);
+          };
+
+          it("must append the extra measures in their own format", () => {
+
+              let visual = new Visual({ element: target, host: host });
+
+              updateVisual(visual, dataView(true));
+
+              expect(hoverFirstBar()).toEqual([
+                  "Region: North",
+                  "Sales: 1",
+                  "Average: 2",
+                  "Deviation (abs): -1",
+                  "Deviation (%): -50.00%",
+                  "Margin: 25%"
+              ]);
+
+          });
+
+          it("must read (Blank) for a bar without a value and leave out its deviation", () => {
+
+              let visual = new Visual({ element: target, host: host });
+
+              updateVisual(visual, createDataView(
+                  [{ name: "Region", values: ["North", "South"] }],
+                  [{ name: "Sales", values: [null, 2] }]));
+
+              expect(hoverFirstBar()).toEqual(["Region: North", "Sales: (Blank)"]);
+              expect(target.querySelector(".bar").getAttribute("aria-label")).toBe("Region: North, Sales: (Blank)");
+
+          });
+
+          it("must leave out the deviation rows when they are switched off", () => {
+
+              let visual = new Visual({ element: target, host: host });
+
+              updateVisual(visual, dataView(false));
+
+              expect(hoverFirstBar()).toEqual(["Region: North", "Sales: 1", "Margin: 25%"]);
+
+          });
+      });
+
+      describe("the colour rules", () => {
+
+          it("must colour matching bars and skip rules with an unknown operator", () => {
+
+              let visual = new Visual({ element: target, host: host });
+
+              updateVisual(visual, createDataView(
+                  [{ name: "Region", values: ["North", "South"] }],
+                  [{ name: "Sales", values: [-5, 5] }],
+                  {
+                      colorRules: {
+                          show: true,
+                          rule1Operator: "between",
+                          rule1Value: 0,
+                          rule1Color: { solid: { color: "#111111" } },
+                          rule2Operator: "lessThan",
+                          rule2Value: 0,
+                          rule2Color: { solid: { color: "#D64550" } }
+                      }
+                  }));
+
+              let fills = getFills(target, ".bar");
+
+              expect(fills[0]).toBe("#d64550");
+              expect(fills[1]).not.toBe("#111111");
+
+          });
+      });
+
+      describe("the ValueFormatter", () => {
+
+          it("must honour the column format string", () => {
+
+              expect(new ValueFormatter({ format: "\\$#,0.00" }).format(1234567.891)).toBe("$1,234,567.89");
+              expect(new ValueFormatter({ format: "0.0%" }).format(0.1234)).toBe("12.3%");
+              expect(new ValueFormatter({ format: "#,0;(#,0)" }).format(-1234)).toBe("(1,234)");
+
+          });
+
+          it("must apply display units and decimal places", () => {
+
+              expect(new ValueFormatter({ format: "#,0", displayUnits: 0, maxValue: 2e6 }).format(1234567)).toBe("1M");
+              expect(new ValueFormatter({ format: "#,0", displayUnits: 1e3, precision: 1 }).format(1234567)).toBe("1,234.6K");
+
+          });
+
+          it("must take the sign from the rounded value", () => {
+
+              expect(new ValueFormatter({ format: "0%" }).format(-0.001)).toBe("0%");
+              expect(new ValueFormatter({ format: "0" }).format(-0.4)).toBe("0");
+              expect(new ValueFormatter({ format: "0" }).format(-0.6)).toBe("-1");
+              expect(new ValueFormatter({ format: "0%", tickInterval: 0.2 }).format(-1e-17)).toBe("0%");
+
+          });
+
+          it("must write scientific formats with a rounded mantissa and a padded exponent", () => {
+
+              let formatter = new ValueFormatter({ format: "0.00E+00", displayUnits: 0, maxValue: 1e6 });
+
+              expect(formatter.format(12345)).toBe("1.23E+04");
+              expect(formatter.format(-0.000123)).toBe("-1.23E-04");
+              expect(formatter.format(99999)).toBe("1.00E+05");
+              expect(formatter.format(0)).toBe("0.00E+00");
+              expect(new ValueFormatter({ format: "0.0e-0" }).format(12345)).toBe("1.2e4");
+
+          });
+
+          it("must pick the automatic display unit after rounding", () => {
+
+              expect(new ValueFormatter({ format: "#,0", displayUnits: 0, maxValue: 999999 }).format(999999)).toBe("1M");
+              expect(new ValueFormatter({ format: "#,0.00", displayUnits: 0, maxValue: 999499 }).format(999499)).toBe("999.50K");
+              expect(new ValueFormatter({ format: "#,0", displayUnits: 0, maxValue: 999 }).format(999)).toBe("999");
+
+          });
+
+          it("must use the separators of the report culture", () => {
+
+              expect(new ValueFormatter({ format: "#,0.00", locale: "de-DE" }).format(1234567.891)).toBe("1.234.567,89");
+              expect(new ValueFormatter({ format: "#,0.00", locale: "en-US" }).format(1234567.891)).toBe("1,234,567.89");
+              expect(new ValueFormatter({ displayUnits: 1e6, precision: 1, locale: "de-DE" }).format(1500000)).toBe("1,5M");
+
+          });
+
+          it("must find the group separator of cultures that don't group four digits", () => {
+
+              expect(new ValueFormatter({ format: "#,0.00", locale: "es-ES" }).format(1234567.891)).toBe("1.234.567,89");
+              expect(new ValueFormatter({ format: "#,0.00", locale: "pl-PL" }).format(1234567.891)).toBe("1\u00a0234\u00a0567,89");
+
+          });
+
+          it("must give axis ticks the decimals their interval needs", () => {
+
+              let formatter = new ValueFormatter({ format: "#,0", displayUnits: 1e3, tickInterval: 500 });
+
+              expect(formatter.format(0)).toBe("0.0K");
+              expect(formatter.format(2500)).toBe("2.5K");
+              expect(new ValueFormatter({ format: "0%", tickInterval: 0.05 }).format(0.1)).toBe("10%");
+
+          });
+      });
+
+      describe("the Resources", () => {
+
+          let resources: Resources;
+
+          beforeEach(() => {
+              resources = new Resources(new MockILocalizationManager({ "Welcome": "Olá {0}" }), {
+                  "en-US": { "Greeting": "Hello {0}", "Farewell": "Goodbye", "Welcome": "Welcome {0}" },
+                  "de": { "Greeting": "Hallo {0}" }
+              });
+          });
+
+          it("must take the host's string for the report's locale and fill in its arguments", () => {
+
+              expect(resources.getLocalString("Welcome", "pt-PT", "Lisboa")).toBe("Olá Lisboa");
+
+          });
+
+          it("must fall back from the region to the language and then the default locale for keys the host lacks", () => {
+
+              expect(resources.getLocalString("Greeting", "de-AT", "Wien")).toBe("Hallo Wien");
+              expect(resources.getLocalString("Farewell", "de-AT")).toBe("Goodbye");
+
+          });
+
+          it("must warn about a missing key and return the key itself", () => {
+
+              spyOn(console, "warn");
+
+              expect(resources.getLocalString("Missing", "en-US")).toBe("Missing");
+              expect(console.warn).toHaveBeenCalled();
+
+          });
+      });
+
+      describe("the AxisLabelLayout", () => {
+
+          // every character is 6px wide and a line is 12px high
+          let layout: AxisLabelLayout;
+
+          beforeEach(() => {
+              layout = new AxisLabelLayout(text => text.length * 6, 12);
+          });
+
+          it("must keep short labels horizontal", () => {
+
+              expect(layout.forBands(["Wii", "PS4"], 60, 100).mode).toBe("horizontal");
+
+          });
+
+          it("must wrap multi-word labels that fit on two lines", () => {
+
+              let result = layout.forBands(["Grand Theft Auto"], 60, 100);
+
+              expect(result.mode).toBe("wrapped");
+              expect(result.lines["Grand Theft Auto"]).toEqual(["Grand", "Theft Auto"]);
+
+          });
+
+          it("must rotate long labels on narrow bands", () => {
+
+              expect(layout.forBands(["Mario Kart Wii Deluxe Edition"], 20, 100).mode).toBe("rotated");
+
+          });
+
+          it("must truncate labels with an ellipsis", () => {
+
+              expect(layout.truncate("Nintendo", 30)).toBe("Nint…");
+
+          });
+
+          it("must lay out the category axis of the visual", () => {
+
+              let visual = new Visual({ element: target, host: host });
+
+              updateVisual(visual, createDataView(
+                  [{ name: "Game", values: ["Wii", "PS4"] }],
+                  [{ name: "Sales", values: [1, 2] }]));
+
+              expect(getTexts(target, ".x-axis .tick text")).toEqual(["Wii", "PS4"]);
+              expect(target.querySelector(".x-axis .tick text").getAttribute("transform")).toBeNull();
+
+          });
+
+          it("must rotate long category labels and keep their full text as a tooltip", () => {
+
+              let visual = new Visual({ element: target, host: host });
+              let names = d3.range(8).map(i => `Super Mario Galaxy Deluxe Edition ${i}`);
+
+              updateVisual(visual, createDataView(
+                  [{ name: "Game", values: names }],
+                  [{ name: "Sales", values: d3.range(8).map(i => i + 1) }]), 300, 200);
+
+              let label = target.querySelector(".x-axis .tick text");
+
+              expect(label.getAttribute("transform")).toBe(`rotate(${AxisLabelLayout.rotation})`);
+              expect(label.querySelector("tspan").textContent).toMatch(/…$/);
+              expect(label.querySelector("title").textContent).toBe(names[0]);
+
+          });
+      });
+
+      describe("the Trends", () => {
+
+          it("must fit a least squares line", () => {
+
+              let regression = Trends.linearRegression([[0, 1], [1, 3], [2, 5]]);
+
+              expect(regression.slope).toBeCloseTo(2, 6);
+              expect(regression.intercept).toBeCloseTo(1, 6);
+              expect(regression.rSquared).toBeCloseTo(1, 6);
+
+          });
+
+          it("must not fit a line through a single point", () => {
+
+              expect(Trends.linearRegression([[3, 10]])).toBeNull();
+
+          });
+
+          it("must average the trailing period", () => {
+
+              expect(Trends.movingAverage([2, 4, 6, 8], 3)).toEqual([null, null, 4, 6]);
+
+          });
+
+          it("must project the trend onto bands of its own after the last category", () => {
+
+              let visual = new Visual({ element: target, host: host });
+
+              updateVisual(visual, createDataView(
+                  [{ name: "Week", values: ["Week 1", "+1", "Week 3"] }],
+                  [{ name: "Sales", values: [1, 2, 3] }],
+                  { trendLine: { show: true, forecast: 2 } }));
+
+              expect(getTexts(target, ".x-axis .tick text")).toEqual(["Week 1", "+1", "Week 3", "+1", "+2"]);
+              expect(target.querySelectorAll(".bar").length).toBe(3);
+
+          });
+      });
   });
 }
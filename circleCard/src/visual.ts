@@ -34,8 +34,10 @@ module powerbi.extensibility.visual {
         private textValue: d3.Selection<SVGElement>;
         private textLabel: d3.Selection<SVGElement>;
         private visualSettings: VisualSettings;
+        private isHighContrast: boolean = false;
 
         constructor(options: VisualConstructorOptions) {
+            this.host = options.host;
             this.svg = d3.select(options.element)
                 .append('svg')
                 .classed('circleCard', true);
@@ -52,6 +54,16 @@ module powerbi.extensibility.visual {
         public enumerateObjectInstances(options: EnumerateVisualObjectInstancesOptions): VisualObjectInstanceEnumeration {
             const settings: VisualSettings = this.visualSettings ||
                 VisualSettings.getDefault() as VisualSettings;
+            // the circle takes the host's colours in high contrast, so its own colour can't be picked
+            if (this.isHighContrast && options.objectName === 'circle') {
+                return [{
+                    objectName: 'circle',
+                    properties: {
+                        circleThickness: settings.circle.circleThickness
+                    },
+                    selector: null
+                }];
+            }
             return VisualSettings.enumerateObjectInstances(settings, options);
         }
 
@@ -67,10 +79,16 @@ module powerbi.extensibility.visual {
             this.visualSettings = VisualSettings.parse<VisualSettings>(dataView);
             this.visualSettings.circle.circleThickness = Math.max(0, this.visualSettings.circle.circleThickness);
             this.visualSettings.circle.circleThickness = Math.min(10, this.visualSettings.circle.circleThickness);
+            let colorPalette: ISandboxExtendedColorPalette = this.host.colorPalette;
+            this.isHighContrast = !!colorPalette.isHighContrast;
+            // high contrast only allows the host's foreground and background, without any transparency
+            let foregroundColor: string = this.isHighContrast ? colorPalette.foreground.value : "black";
+            let fillColor: string = this.isHighContrast ? colorPalette.background.value : this.visualSettings.circle.circleColor;
+            let textColor: string = this.isHighContrast ? colorPalette.foreground.value : null;
             this.circle
-                .style("fill", this.visualSettings.circle.circleColor)
-                .style("fill-opacity", 0.5)
-                .style("stroke", "black")
+                .style("fill", fillColor)
+                .style("fill-opacity", this.isHighContrast ? 1 : 0.5)
+                .style("stroke", foregroundColor)
                 .style("stroke-width", this.visualSettings.circle.circleThickness)
                 .attr({
                     r: radius,
@@ -85,7 +103,8 @@ module powerbi.extensibility.visual {
                     y: "50%",
                     dy: "0.35em",
                     "text-anchor": "middle"
-                }).style("font-size", fontSizeValue + "px");
+                }).style("font-size", fontSizeValue + "px")
+                .style("fill", textColor);
             let fontSizeLabel: number = fontSizeValue / 4;
             this.textLabel
                 .text(dataView.metadata.columns[0].displayName)
@@ -95,7 +114,8 @@ module powerbi.extensibility.visual {
                     dy: fontSizeValue / 1.2,
                     "text-anchor": "middle"
                 })
-                .style("font-size", fontSizeLabel + "px");
+                .style("font-size", fontSizeLabel + "px")
+                .style("fill", textColor);
         }
     }
 }
\ No newline at end of file